@@ -0,0 +1,201 @@
+/**
+ * Strip SGR escape sequences, leaving only the visible text
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*m/g, '');
+}
+
+/**
+ * ANSI-aware truncation: counts visible characters while preserving escape codes
+ */
+export function truncateAnsi(line: string, width: number): string {
+  let visibleLength = 0;
+  let result = '';
+  let inEscape = false;
+  let escapeSequence = '';
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '\x1b') {
+      inEscape = true;
+      escapeSequence = char;
+      continue;
+    }
+
+    if (inEscape) {
+      escapeSequence += char;
+      if (char === 'm') {
+        // End of escape sequence
+        result += escapeSequence;
+        inEscape = false;
+        escapeSequence = '';
+      }
+      continue;
+    }
+
+    // Regular character
+    if (visibleLength >= width) {
+      break;
+    }
+
+    result += char;
+    visibleLength++;
+  }
+
+  // Make sure we close any open escape sequences
+  if (result.includes('\x1b[') && !result.endsWith('\x1b[0m')) {
+    result += '\x1b[0m';
+  }
+
+  return result;
+}
+
+/**
+ * Truncate, then right-pad with spaces so the visible width is exactly `width`
+ */
+export function padAnsi(line: string, width: number): string {
+  const truncated = truncateAnsi(line, width);
+  const visible = stripAnsi(truncated).length;
+  return truncated + ' '.repeat(Math.max(0, width - visible));
+}
+
+/**
+ * Wrap visible-character ranges of an ANSI string in `on`/`off` codes.
+ * `on` is re-applied after any escape inside a range so highlighter
+ * resets don't cut the span short.
+ */
+export function highlightRanges(
+  text: string,
+  ranges: Array<{ start: number; end: number }>,
+  on: string,
+  off: string,
+): string {
+  if (ranges.length === 0) {
+    return text;
+  }
+
+  const inRange = (pos: number) => ranges.some(r => pos >= r.start && pos < r.end);
+  let result = '';
+  let pos = 0;
+  let active = false;
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\x1b') {
+      const end = text.indexOf('m', i);
+      if (end === -1) {
+        result += text.slice(i);
+        break;
+      }
+      result += text.slice(i, end + 1);
+      if (active) {
+        result += on;
+      }
+      i = end;
+      continue;
+    }
+
+    const shouldBeActive = inRange(pos);
+    if (shouldBeActive !== active) {
+      result += shouldBeActive ? on : off;
+      active = shouldBeActive;
+    }
+
+    result += text[i];
+    pos++;
+  }
+
+  if (active) {
+    result += off;
+  }
+
+  return result;
+}
+
+/**
+ * ANSI-aware slice of the visible columns [start, end). Escapes before
+ * `start` are kept so colors already in effect carry into the slice.
+ */
+export function sliceAnsi(line: string, start: number, end: number): string {
+  let visible = 0;
+  let result = '';
+
+  for (let i = 0; i < line.length && visible < end; i++) {
+    if (line[i] === '\x1b') {
+      const escapeEnd = line.indexOf('m', i);
+      if (escapeEnd === -1) {
+        break;
+      }
+      result += line.slice(i, escapeEnd + 1);
+      i = escapeEnd;
+      continue;
+    }
+
+    if (visible >= start) {
+      result += line[i];
+    }
+    visible++;
+  }
+
+  if (result.includes('\x1b[') && !result.endsWith('\x1b[0m')) {
+    result += '\x1b[0m';
+  }
+
+  return result;
+}
+
+/**
+ * Number of rows wrapAnsi() splits a line of `visibleWidth` columns into
+ */
+export function wrappedRowCount(visibleWidth: number, width: number, indent: number): number {
+  const bodyWidth = Math.max(1, width - indent);
+  return Math.max(1, 1 + Math.ceil((visibleWidth - Math.max(width, indent)) / bodyWidth));
+}
+
+/**
+ * Soft-wrap an ANSI line to `width` columns. The first `indent` columns
+ * (a gutter) only appear on the first row; continuation rows start with
+ * `marker`, which should be `indent` columns wide.
+ */
+export function wrapAnsi(line: string, width: number, indent: number, marker: string): string[] {
+  const visibleWidth = stripAnsi(line).length;
+  const bodyWidth = Math.max(1, width - indent);
+  const rows = [sliceAnsi(line, 0, Math.max(width, indent))];
+
+  for (let start = Math.max(width, indent); start < visibleWidth; start += bodyWidth) {
+    rows.push(marker + sliceAnsi(line, start, start + bodyWidth));
+  }
+
+  return rows;
+}
+
+/**
+ * Fit an ANSI line to `width` columns with its body panned `offset`
+ * columns to the right. The first `indent` columns (a gutter) stay fixed;
+ * a dim "›" in the last column marks content continuing past the edge.
+ */
+export function panAnsi(line: string, width: number, indent: number, offset: number): string {
+  const visibleWidth = stripAnsi(line).length;
+  const gutter = sliceAnsi(line, 0, Math.min(indent, width));
+  const bodyWidth = Math.max(0, width - indent);
+  const start = indent + offset;
+
+  if (visibleWidth - start <= bodyWidth) {
+    return gutter + sliceAnsi(line, start, start + bodyWidth);
+  }
+  if (bodyWidth === 0) {
+    return gutter;
+  }
+  return `${gutter}${sliceAnsi(line, start, start + bodyWidth - 1)}\x1b[2m›\x1b[0m`;
+}
+
+/**
+ * Give a whole line one background (cursor / selection): existing
+ * backgrounds are dropped and resets keep `background` in effect
+ */
+export function applyLineBackground(line: string, background: string): string {
+  const content = line
+    .replace(/\x1b\[(?:4[0-9]|10[0-7]|48;5;\d+|48;2;\d+;\d+;\d+)m/g, '')
+    .replace(/\x1b\[0m/g, '\x1b[22m\x1b[39m');
+  return `${background}${content}\x1b[0m`;
+}
@@ -0,0 +1,66 @@
+/**
+ * Reference-counted, content-addressed store for file contents.
+ * Identical contents share one string and one key, so equality checks
+ * are key comparisons.
+ */
+export class ContentStore {
+  private entries = new Map<string, { content: string; refs: number }>();
+
+  /**
+   * Add a reference to `content` and return its key. Keys are equal
+   * exactly when contents are.
+   */
+  retain(content: string): string {
+    const hash = hashContent(content);
+    // Hashes are 53-bit; a colliding content gets a suffixed key instead
+    for (let key = hash, n = 1; ; key = `${hash}~${n++}`) {
+      const entry = this.entries.get(key);
+      if (!entry) {
+        this.entries.set(key, { content, refs: 1 });
+        return key;
+      }
+      if (entry.content === content) {
+        entry.refs++;
+        return key;
+      }
+    }
+  }
+
+  /**
+   * Drop a reference; the content is freed with its last reference
+   */
+  release(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry && --entry.refs === 0) {
+      this.entries.delete(key);
+    }
+  }
+
+  /**
+   * Shared copy of the content stored under `key` ('' if unknown)
+   */
+  get(key: string): string {
+    return this.entries.get(key)?.content ?? '';
+  }
+
+  /** Number of distinct contents held */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * 53-bit hash of a string (cyrb53), in base 36
+ */
+export function hashContent(content: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < content.length; i++) {
+    const ch = content.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
@@ -1,21 +1,78 @@
 import * as Diff from 'diff';
+import { DIFF_CONTEXT_LINES } from './constants.js';
+
+/** Half-open character range [start, end) within DiffLine.content */
+export interface ChangeRange {
+  start: number;
+  end: number;
+}
 
 export interface DiffLine {
   type: 'added' | 'removed' | 'context';
   content: string;  // the line text (without +/- prefix)
   oldLineNumber?: number;
   newLineNumber?: number;
+  changes?: ChangeRange[];  // word-level edits, set on paired removed/added lines
+}
+
+/** Inclusive range of line numbers */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/** One @@ block of a unified diff, with the ranges from the patch */
+export interface Hunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  additions: number;
+  deletions: number;
+  lines: DiffLine[];  // same objects as in FileDiff.hunks
 }
 
 export interface FileDiff {
   filePath: string;
   isNewFile: boolean;
-  hunks: DiffLine[];
+  hunks: DiffLine[];  // flat list of every line across all hunks
+  structuredHunks?: Hunk[];  // set by computeDiff; see getHunks() for hand-built diffs
   additions: number;
   deletions: number;
 }
 
-export function computeDiff(filePath: string, original: string, current: string): FileDiff {
+/** How whitespace differences are ignored (mirrors git diff's --ignore-space-* flags) */
+export type IgnoreWhitespace = 'none' | 'trailing' | 'amount' | 'all';
+
+export interface DiffOptions {
+  /** Unchanged lines shown around each change. Default: DIFF_CONTEXT_LINES */
+  context?: number;
+  /** 'trailing' = at end of line, 'amount' = runs of whitespace, 'all' = any. Default: 'none' */
+  ignoreWhitespace?: IgnoreWhitespace;
+  ignoreCase?: boolean;
+  /** Treat CRLF and LF line endings as equal */
+  ignoreLineEndings?: boolean;
+  /**
+   * Extra unchanged lines to show, as old line number ranges (context
+   * expanded on demand). Only lines that extend a hunk into the gap before
+   * the next one are added; hunks are never merged, so indices are stable.
+   */
+  reveal?: LineRange[];
+}
+
+/** Line counts of a diff, without its lines (see computeDiffStats) */
+export interface DiffStats {
+  isNewFile: boolean;
+  additions: number;
+  deletions: number;
+}
+
+export function computeDiff(
+  filePath: string,
+  original: string,
+  current: string,
+  options?: DiffOptions,
+): FileDiff {
   // Check if this is a new file (empty original, non-empty current)
   const isNewFile = original === '' && current !== '';
   
@@ -25,23 +82,46 @@ export function computeDiff(filePath: string, original: string, current: string)
       filePath,
       isNewFile: false,
       hunks: [],
+      structuredHunks: [],
       additions: 0,
       deletions: 0,
     };
   }
   
+  // Ignore options are applied by diffing normalized lines; line numbers
+  // are unchanged by normalization, so content is looked up in the originals
+  const normalize = createLineNormalizer(options);
+  const originalLines = original.split('\n');
+  const currentLines = current.split('\n');
+  const displayLine = (line: string) =>
+    options?.ignoreLineEndings ? line.replace(/\r$/, '') : line;
+
+  // New or deleted file: every line is one hunk, no diffing needed (the
+  // same hunk structuredPatch builds, without its cost on large files)
+  if (original === '' || current === '') {
+    const hunk = wholeFileHunk(original === '' ? currentLines : originalLines, original === '' ? 'added' : 'removed', displayLine);
+    return {
+      filePath,
+      isNewFile,
+      hunks: hunk.lines,
+      structuredHunks: [hunk],
+      additions: hunk.additions,
+      deletions: hunk.deletions,
+    };
+  }
+
   // Compute unified diff with context
   const patches = Diff.structuredPatch(
     filePath,
     filePath,
-    original,
-    current,
+    normalize ? originalLines.map(normalize).join('\n') : original,
+    normalize ? currentLines.map(normalize).join('\n') : current,
     undefined,
     undefined,
-    { context: 3 }
+    { context: options?.context ?? DIFF_CONTEXT_LINES }
   );
   
-  const hunks: DiffLine[] = [];
+  const structuredHunks: Hunk[] = [];
   let additions = 0;
   let deletions = 0;
   
@@ -49,46 +129,372 @@ export function computeDiff(filePath: string, original: string, current: string)
   for (const hunk of patches.hunks) {
     let oldLineNum = hunk.oldStart;
     let newLineNum = hunk.newStart;
+    const structured: Hunk = {
+      oldStart: hunk.oldStart,
+      oldLines: hunk.oldLines,
+      newStart: hunk.newStart,
+      newLines: hunk.newLines,
+      additions: 0,
+      deletions: 0,
+      lines: [],
+    };
     
     for (const line of hunk.lines) {
       const firstChar = line[0];
-      const content = line.substring(1);
+      let content = line.substring(1);
+      if (normalize) {
+        content = displayLine(
+          firstChar === '-' ? originalLines[oldLineNum - 1] : currentLines[newLineNum - 1]
+        );
+      }
+      let diffLine: DiffLine;
       
       if (firstChar === '+') {
-        hunks.push({
+        diffLine = {
           type: 'added',
           content,
           newLineNumber: newLineNum,
-        });
-        additions++;
+        };
+        structured.additions++;
         newLineNum++;
       } else if (firstChar === '-') {
-        hunks.push({
+        diffLine = {
           type: 'removed',
           content,
           oldLineNumber: oldLineNum,
-        });
-        deletions++;
+        };
+        structured.deletions++;
         oldLineNum++;
+      } else if (firstChar === '\\') {
+        // "\ No newline at end of file" marker
+        continue;
       } else {
         // Context line (starts with space)
-        hunks.push({
+        diffLine = {
           type: 'context',
           content,
           oldLineNumber: oldLineNum,
           newLineNumber: newLineNum,
-        });
+        };
         oldLineNum++;
         newLineNum++;
       }
+
+      structured.lines.push(diffLine);
     }
+
+    additions += structured.additions;
+    deletions += structured.deletions;
+    structuredHunks.push(structured);
   }
-  
+
+  if (options?.reveal) {
+    revealContext(structuredHunks, options.reveal, newLineNumber => displayLine(currentLines[newLineNumber - 1]));
+  }
+
+  // Pair removed/added runs within a hunk only; with little context,
+  // neighbouring hunks can be unrelated edits
+  for (const hunk of structuredHunks) {
+    addWordChanges(hunk.lines);
+  }
+  const hunks = structuredHunks.flatMap(hunk => hunk.lines);
+
   return {
     filePath,
     isNewFile,
     hunks,
+    structuredHunks,
     additions,
     deletions,
   };
 }
+
+/**
+ * Addition / deletion counts equal to computeDiff's, for file lists and
+ * badges. Skips building hunks, context and word changes, and doesn't diff
+ * at all when the contents are equal or one side is empty.
+ */
+export function computeDiffStats(original: string, current: string, options?: DiffOptions): DiffStats {
+  const isNewFile = original === '' && current !== '';
+  const lineCount = (text: string) => (text === '' ? 0 : text.split('\n').length - (text.endsWith('\n') ? 1 : 0));
+
+  if (original === current) {
+    return { isNewFile: false, additions: 0, deletions: 0 };
+  }
+  if (original === '' || current === '') {
+    return { isNewFile, additions: lineCount(current), deletions: lineCount(original) };
+  }
+
+  const normalize = createLineNormalizer(options);
+  const changes = Diff.diffLines(
+    normalize ? original.split('\n').map(normalize).join('\n') : original,
+    normalize ? current.split('\n').map(normalize).join('\n') : current,
+  );
+
+  let additions = 0;
+  let deletions = 0;
+  for (const change of changes) {
+    if (change.added) {
+      additions += change.count ?? 0;
+    } else if (change.removed) {
+      deletions += change.count ?? 0;
+    }
+  }
+  return { isNewFile, additions, deletions };
+}
+
+/**
+ * The single hunk of a diff against an empty file
+ */
+function wholeFileHunk(lines: string[], type: 'added' | 'removed', displayLine: (line: string) => string): Hunk {
+  // A trailing newline ends the last line rather than starting another
+  const count = lines[lines.length - 1] === '' ? lines.length - 1 : lines.length;
+  const diffLines: DiffLine[] = [];
+  for (let i = 0; i < count; i++) {
+    const lineNumber = type === 'added' ? { newLineNumber: i + 1 } : { oldLineNumber: i + 1 };
+    diffLines.push({ type, content: displayLine(lines[i]), ...lineNumber });
+  }
+
+  return {
+    oldStart: 1,
+    oldLines: type === 'removed' ? count : 0,
+    newStart: 1,
+    newLines: type === 'added' ? count : 0,
+    additions: type === 'added' ? count : 0,
+    deletions: type === 'removed' ? count : 0,
+    lines: diffLines,
+  };
+}
+
+/**
+ * Build the per-line normalization for the ignore options, or undefined
+ * when nothing is ignored and the texts can be diffed as-is
+ */
+function createLineNormalizer(options?: DiffOptions): ((line: string) => string) | undefined {
+  const whitespace = options?.ignoreWhitespace ?? 'none';
+  if (whitespace === 'none' && !options?.ignoreCase && !options?.ignoreLineEndings) {
+    return undefined;
+  }
+
+  return (line: string) => {
+    let result = line;
+    if (options?.ignoreLineEndings) {
+      result = result.replace(/\r$/, '');
+    }
+    switch (whitespace) {
+      case 'trailing':
+        result = result.trimEnd();
+        break;
+      case 'amount':
+        result = result.replace(/\s+/g, ' ').trimEnd();
+        break;
+      case 'all':
+        result = result.replace(/\s+/g, '');
+        break;
+    }
+    if (options?.ignoreCase) {
+      result = result.toLowerCase();
+    }
+    return result;
+  };
+}
+
+/**
+ * Format the unified-diff header for a hunk, e.g. "@@ -3,7 +3,8 @@"
+ */
+export function formatHunkHeader(hunk: Hunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+/**
+ * Summary shown in place of a folded hunk: its line range (new side, or
+ * old side for pure deletions), change counts and folded line count,
+ * e.g. "lines 3–10 +2 -1 · 8 lines folded"
+ */
+export function formatFoldSummary(hunk: Hunk): string {
+  const [label, start, count] = hunk.newLines > 0
+    ? ['lines', hunk.newStart, hunk.newLines]
+    : ['old lines', hunk.oldStart, hunk.oldLines];
+  const range = count > 1 ? `${label} ${start}–${start + count - 1}` : `${label.slice(0, -1)} ${start}`;
+  return `${range} +${hunk.additions} -${hunk.deletions} · ${hunk.lines.length} lines folded`;
+}
+
+/**
+ * Structured hunks for a diff. Diffs built by hand (without structuredHunks)
+ * are split wherever the old or new line numbers skip ahead.
+ */
+export function getHunks(diff: FileDiff): Hunk[] {
+  if (diff.structuredHunks) {
+    return diff.structuredHunks;
+  }
+
+  const result: Hunk[] = [];
+  let current: Hunk | undefined;
+  let previousOld: number | undefined;
+  let previousNew: number | undefined;
+
+  for (const line of diff.hunks) {
+    const oldGap = line.oldLineNumber !== undefined && previousOld !== undefined
+      && line.oldLineNumber > previousOld + 1;
+    const newGap = line.newLineNumber !== undefined && previousNew !== undefined
+      && line.newLineNumber > previousNew + 1;
+
+    if (!current || oldGap || newGap) {
+      current = {
+        oldStart: 0,
+        oldLines: 0,
+        newStart: 0,
+        newLines: 0,
+        additions: 0,
+        deletions: 0,
+        lines: [],
+      };
+      result.push(current);
+    }
+
+    if (line.oldLineNumber !== undefined) {
+      if (current.oldLines === 0) {
+        current.oldStart = line.oldLineNumber;
+      }
+      current.oldLines++;
+      previousOld = line.oldLineNumber;
+    }
+    if (line.newLineNumber !== undefined) {
+      if (current.newLines === 0) {
+        current.newStart = line.newLineNumber;
+      }
+      current.newLines++;
+      previousNew = line.newLineNumber;
+    }
+    if (line.type === 'added') {
+      current.additions++;
+    } else if (line.type === 'removed') {
+      current.deletions++;
+    }
+    current.lines.push(line);
+  }
+
+  return result;
+}
+
+/**
+ * Old line numbers hidden between hunk `hunkIndex - 1` and hunk `hunkIndex`
+ * (undefined for the first hunk or when nothing is hidden)
+ */
+export function getHiddenLines(diff: FileDiff, hunkIndex: number): LineRange | undefined {
+  const hunks = getHunks(diff);
+  const prev = hunks[hunkIndex - 1];
+  const next = hunks[hunkIndex];
+  if (!prev || !next) {
+    return undefined;
+  }
+
+  const start = prev.oldStart + prev.oldLines;
+  const end = next.oldStart - 1;
+  return end >= start ? { start, end } : undefined;
+}
+
+/**
+ * Grow hunks into the gaps between them with the revealed lines: the run
+ * at the top of a gap extends the hunk above, the run at the bottom the
+ * hunk below. Revealed lines in the middle of a gap are left hidden.
+ */
+function revealContext(hunks: Hunk[], reveal: LineRange[], lineAt: (newLineNumber: number) => string): void {
+  const isRevealed = (oldLineNumber: number) =>
+    reveal.some(range => oldLineNumber >= range.start && oldLineNumber <= range.end);
+  const contextLine = (oldLineNumber: number, offset: number): DiffLine => ({
+    type: 'context',
+    content: lineAt(oldLineNumber + offset),
+    oldLineNumber,
+    newLineNumber: oldLineNumber + offset,
+  });
+
+  for (let h = 1; h < hunks.length; h++) {
+    const prev = hunks[h - 1];
+    const next = hunks[h];
+    const gapStart = prev.oldStart + prev.oldLines;
+    const gapEnd = next.oldStart - 1;
+    // Unchanged lines have the same offset throughout the gap
+    const offset = next.newStart - next.oldStart;
+
+    let top = gapStart;
+    while (top <= gapEnd && isRevealed(top)) {
+      prev.lines.push(contextLine(top, offset));
+      top++;
+    }
+    prev.oldLines += top - gapStart;
+    prev.newLines += top - gapStart;
+
+    let bottom = gapEnd;
+    const below: DiffLine[] = [];
+    while (bottom >= top && isRevealed(bottom)) {
+      below.unshift(contextLine(bottom, offset));
+      bottom--;
+    }
+    next.lines.unshift(...below);
+    next.oldStart -= below.length;
+    next.newStart -= below.length;
+    next.oldLines += below.length;
+    next.newLines += below.length;
+  }
+}
+
+/**
+ * Pair each run of removed lines with the added run that follows it and
+ * mark the changed words on both sides. Lines with nothing in common are
+ * left without ranges — highlighting all of them would add no information.
+ */
+function addWordChanges(lines: DiffLine[]): void {
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type !== 'removed') {
+      i++;
+      continue;
+    }
+
+    const removedStart = i;
+    while (i < lines.length && lines[i].type === 'removed') {
+      i++;
+    }
+    const addedStart = i;
+    while (i < lines.length && lines[i].type === 'added') {
+      i++;
+    }
+
+    const pairCount = Math.min(addedStart - removedStart, i - addedStart);
+    for (let p = 0; p < pairCount; p++) {
+      const removed = lines[removedStart + p];
+      const added = lines[addedStart + p];
+      const parts = Diff.diffWordsWithSpace(removed.content, added.content);
+
+      const hasCommonText = parts.some(
+        part => !part.added && !part.removed && part.value.trim() !== ''
+      );
+      if (!hasCommonText) {
+        continue;
+      }
+
+      const removedRanges: ChangeRange[] = [];
+      const addedRanges: ChangeRange[] = [];
+      let oldPos = 0;
+      let newPos = 0;
+
+      for (const part of parts) {
+        const length = part.value.length;
+        if (part.removed) {
+          removedRanges.push({ start: oldPos, end: oldPos + length });
+          oldPos += length;
+        } else if (part.added) {
+          addedRanges.push({ start: newPos, end: newPos + length });
+          newPos += length;
+        } else {
+          oldPos += length;
+          newPos += length;
+        }
+      }
+
+      removed.changes = removedRanges;
+      added.changes = addedRanges;
+    }
+  }
+}
@@ -1,39 +1,132 @@
-import { computeDiff, FileDiff } from './diff-engine.js';
+import { ContentStore } from './content-store.js';
+import { computeDiff, computeDiffStats, DiffLine, DiffOptions, DiffStats, FileDiff, Hunk } from './diff-engine.js';
+
+export interface FileVersion {
+  content: string;
+  timestamp: number;
+  /** Caller-supplied id, e.g. the tool call or turn that wrote this version */
+  label?: string;
+}
 
 export interface FileSnapshot {
   originalContent: string;
   currentContent: string;
+  /** Every distinct content the file has had, oldest first; the last is currentContent */
+  versions: FileVersion[];
+}
+
+/**
+ * A named point across every tracked file. Each file maps to the index of
+ * its version at that moment; files tracked later count from version 0.
+ */
+export interface Checkpoint {
+  label: string;
+  timestamp: number;
+  versions: Record<string, number>;
+}
+
+/** Selects what changes are measured against */
+export interface ChangeQuery {
+  /** Checkpoint label; omitted (or unknown) means since the baseline */
+  since?: string;
 }
 
+/**
+ * Events emitted by DiffState:
+ * - `change`: any tracked file's content or baseline changed
+ * - `track`: files were tracked for the first time
+ * - `dismiss`: files were dismissed
+ * `track` and `dismiss` are always followed by a `change` for the same paths.
+ */
+export type DiffStateEventType = 'change' | 'track' | 'dismiss';
+
+export interface DiffStateEvent {
+  type: DiffStateEventType;
+  paths: string[];
+}
+
+export type DiffStateListener = (event: DiffStateEvent) => void;
+
 export interface SerializedDiffState {
   version: 1;
   files: Array<{
     path: string;
     originalContent: string;
     currentContent: string;
+    /**
+     * Every version, oldest first. Data saved without it restores the
+     * history as original → current.
+     */
+    versions?: FileVersion[];
   }>;
+  /** Omitted when no checkpoints were recorded */
+  checkpoints?: Checkpoint[];
 }
 
+/**
+ * FileSnapshot plus ContentStore keys for each of its contents
+ */
+interface StoredSnapshot extends FileSnapshot {
+  originalKey: string;
+  currentKey: string;
+  /** Key of each entry of versions */
+  versionKeys: string[];
+}
+
+/** Diffs (and counts) kept per file for different options / checkpoints */
+const DIFF_CACHE_LIMIT = 16;
+
 export class DiffState {
-  private snapshots: Map<string, FileSnapshot> = new Map();
+  private snapshots: Map<string, StoredSnapshot> = new Map();
+  // Every content referenced by a snapshot; identical contents are stored once
+  private contents = new ContentStore();
+  // Computed diffs per file, keyed by content keys and options
+  private diffCache: Map<string, Map<string, FileDiff | DiffStats>> = new Map();
+  private checkpoints: Checkpoint[] = [];
+  private listeners: Map<DiffStateEventType, Set<DiffStateListener>> = new Map();
+  private _revision = 0;
+
+  /**
+   * Subscribe to an event. Returns a function that unsubscribes.
+   * Listeners run synchronously after the state has changed; an error
+   * thrown by one is ignored, so it can't fail the call that made the
+   * change or keep other listeners from running.
+   */
+  on(type: DiffStateEventType, listener: DiffStateListener): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
 
   /**
    * Called when a file is written/edited for the first time
    * originalContent = content before the tool modified it
    * currentContent = content after the tool modified it
    * 
+   * label = optional id recorded with the new version in the file's history
+   *
    * If the file is already tracked, behaves like updateFile (keeps original, updates current)
    */
-  trackFile(filePath: string, originalContent: string, currentContent: string): void {
+  trackFile(filePath: string, originalContent: string, currentContent: string, label?: string): void {
     if (this.snapshots.has(filePath)) {
       // Already tracked - behave like updateFile
-      this.updateFile(filePath, currentContent);
+      this.updateFile(filePath, currentContent, label);
     } else {
       // New file - store both original and current
-      this.snapshots.set(filePath, {
-        originalContent,
-        currentContent,
-      });
+      const snapshot = this.createSnapshot(originalContent, originalContent, [
+        { content: originalContent, timestamp: Date.now() },
+      ]);
+      this.setCurrentContent(snapshot, currentContent, label);
+      this.snapshots.set(filePath, snapshot);
+      this.invalidate(filePath);
+      this.emit('track', [filePath]);
+      this.emit('change', [filePath]);
     }
   }
 
@@ -41,38 +134,92 @@ export class DiffState {
    * Called on subsequent modifications to an already-tracked file
    * Updates currentContent but keeps original baseline
    */
-  updateFile(filePath: string, currentContent: string): void {
+  updateFile(filePath: string, currentContent: string, label?: string): void {
     const snapshot = this.snapshots.get(filePath);
-    if (snapshot) {
-      snapshot.currentContent = currentContent;
+    if (snapshot && this.setCurrentContent(snapshot, currentContent, label)) {
+      this.invalidate(filePath);
+      this.emit('change', [filePath]);
     }
     // If not tracked, do nothing (gracefully handle edge case)
   }
 
   /**
-   * Get the diff for a tracked file
+   * Get the version history of a tracked file, oldest first
+   */
+  getHistory(filePath: string): FileVersion[] {
+    return this.snapshots.get(filePath)?.versions.slice() ?? [];
+  }
+
+  /**
+   * Diff two entries of a file's history (indices into getHistory())
+   * Returns undefined if the file isn't tracked or an index is out of range
    */
-  getFileDiff(filePath: string): FileDiff | undefined {
+  diffVersions(
+    filePath: string,
+    fromIndex: number,
+    toIndex: number,
+    options?: DiffOptions,
+  ): FileDiff | undefined {
+    const versionKeys = this.snapshots.get(filePath)?.versionKeys;
+    const fromKey = versionKeys?.[fromIndex];
+    const toKey = versionKeys?.[toIndex];
+    if (fromKey === undefined || toKey === undefined) {
+      return undefined;
+    }
+
+    return this.getCachedDiff(filePath, fromKey, toKey, options);
+  }
+
+  /**
+   * Get the diff for a tracked file, against the baseline or `since` a checkpoint.
+   * Diffs are cached until the file changes, so the result is shared and
+   * must not be modified.
+   */
+  getFileDiff(filePath: string, options?: DiffOptions & ChangeQuery): FileDiff | undefined {
     const snapshot = this.snapshots.get(filePath);
     if (!snapshot) {
       return undefined;
     }
 
-    return computeDiff(
+    return this.getCachedDiff(
       filePath,
-      snapshot.originalContent,
-      snapshot.currentContent
+      this.getBaseKey(filePath, snapshot, options?.since),
+      snapshot.currentKey,
+      options
     );
   }
 
+  /**
+   * Addition / deletion counts of getFileDiff() without computing the diff
+   */
+  getFileStats(filePath: string, options?: DiffOptions & ChangeQuery): DiffStats | undefined {
+    const snapshot = this.snapshots.get(filePath);
+    if (!snapshot) {
+      return undefined;
+    }
+
+    const baseKey = this.getBaseKey(filePath, snapshot, options?.since);
+    // A cached diff with the same options already has the counts
+    const diff = this.diffCache.get(filePath)?.get(cacheKey('diff', baseKey, snapshot.currentKey, options));
+    if (diff) {
+      return { isNewFile: diff.isNewFile, additions: diff.additions, deletions: diff.deletions };
+    }
+    return this.cached(filePath, cacheKey('stats', baseKey, snapshot.currentKey, options), () => computeDiffStats(
+      this.contents.get(baseKey),
+      snapshot.currentContent,
+      options
+    ));
+  }
+
   /**
    * Get all tracked file paths that have actual changes
+   * (since the baseline, or `since` a checkpoint)
    */
-  getChangedFiles(): string[] {
+  getChangedFiles(query?: ChangeQuery): string[] {
     const changedFiles: string[] = [];
     
     for (const [filePath, snapshot] of this.snapshots.entries()) {
-      if (snapshot.originalContent !== snapshot.currentContent) {
+      if (this.getBaseKey(filePath, snapshot, query?.since) !== snapshot.currentKey) {
         changedFiles.push(filePath);
       }
     }
@@ -80,6 +227,27 @@ export class DiffState {
     return changedFiles;
   }
 
+  /**
+   * Record a named point across every tracked file, e.g. at the end of an
+   * agent turn. Reusing a label moves that checkpoint to now.
+   */
+  checkpoint(label: string): void {
+    const versions: Record<string, number> = {};
+    for (const [filePath, snapshot] of this.snapshots.entries()) {
+      versions[filePath] = snapshot.versions.length - 1;
+    }
+
+    this.checkpoints = this.checkpoints.filter(c => c.label !== label);
+    this.checkpoints.push({ label, timestamp: Date.now(), versions });
+  }
+
+  /**
+   * Get checkpoint labels, oldest first
+   */
+  getCheckpoints(): string[] {
+    return this.checkpoints.map(c => c.label);
+  }
+
   /**
    * Dismiss a file: reset baseline to current content, remove from changed list
    * Future edits will diff against this new baseline
@@ -87,11 +255,234 @@ export class DiffState {
   dismissFile(filePath: string): void {
     const snapshot = this.snapshots.get(filePath);
     if (snapshot) {
-      snapshot.originalContent = snapshot.currentContent;
+      this.setOriginalContent(snapshot, snapshot.currentContent);
+      this.invalidate(filePath);
+      this.emit('dismiss', [filePath]);
+      this.emit('change', [filePath]);
     }
     // If not tracked, do nothing (gracefully handle edge case)
   }
 
+  /**
+   * Accept one hunk: fold it into the baseline so it no longer shows as a change.
+   * hunkIndex indexes FileDiff.structuredHunks computed with the same options.
+   * Returns false if the file or hunk doesn't exist.
+   */
+  acceptHunk(filePath: string, hunkIndex: number, options?: DiffOptions): boolean {
+    const snapshot = this.snapshots.get(filePath);
+    const hunk = this.getHunk(filePath, hunkIndex, options);
+    if (!snapshot || !hunk) {
+      return false;
+    }
+
+    this.setOriginalContent(snapshot, replaceHunkLines(
+      snapshot.originalContent, hunk, 'old', snapshot.currentContent
+    ));
+    this.invalidate(filePath);
+    this.emit('change', [filePath]);
+    return true;
+  }
+
+  /**
+   * Reject one hunk: revert it in the current content.
+   * Returns the new file content for the caller to write to disk,
+   * or undefined if the file or hunk doesn't exist.
+   */
+  rejectHunk(filePath: string, hunkIndex: number, options?: DiffOptions): string | undefined {
+    const snapshot = this.snapshots.get(filePath);
+    const hunk = this.getHunk(filePath, hunkIndex, options);
+    if (!snapshot || !hunk) {
+      return undefined;
+    }
+
+    const changed = this.setCurrentContent(snapshot, replaceHunkLines(
+      snapshot.currentContent, hunk, 'new', snapshot.originalContent
+    ));
+    if (changed) {
+      this.invalidate(filePath);
+      this.emit('change', [filePath]);
+    }
+    return snapshot.currentContent;
+  }
+
+  /**
+   * Revert individual diff lines in the current content: selected removed
+   * lines are restored and selected added lines are dropped; context lines
+   * are ignored. Returns the new file content, or undefined if not tracked.
+   */
+  revertLines(filePath: string, lines: DiffLine[], options?: DiffOptions): string | undefined {
+    const snapshot = this.snapshots.get(filePath);
+    if (!snapshot) {
+      return undefined;
+    }
+
+    const restore = new Set<number>();
+    const drop = new Set<number>();
+    for (const line of lines) {
+      if (line.type === 'removed' && line.oldLineNumber !== undefined) {
+        restore.add(line.oldLineNumber);
+      } else if (line.type === 'added' && line.newLineNumber !== undefined) {
+        drop.add(line.newLineNumber);
+      }
+    }
+    if (restore.size === 0 && drop.size === 0) {
+      return snapshot.currentContent;
+    }
+
+    // Walk a whole-file diff (unlimited context) so every line is visited in order
+    const fullDiff = this.getCachedDiff(
+      filePath,
+      snapshot.originalKey,
+      snapshot.currentKey,
+      { ...options, context: Infinity }
+    );
+    const originalLines = splitLines(snapshot.originalContent);
+    const currentLines = splitLines(snapshot.currentContent);
+    const result: string[] = [];
+    let endsWithCurrentLine = false;
+
+    for (const line of fullDiff.hunks) {
+      if (line.type === 'removed') {
+        if (restore.has(line.oldLineNumber!)) {
+          result.push(originalLines[line.oldLineNumber! - 1]);
+          endsWithCurrentLine = false;
+        }
+      } else if (line.type === 'added') {
+        if (!drop.has(line.newLineNumber!)) {
+          result.push(currentLines[line.newLineNumber! - 1]);
+          endsWithCurrentLine = true;
+        }
+      } else {
+        result.push(currentLines[line.newLineNumber! - 1]);
+        endsWithCurrentLine = true;
+      }
+    }
+
+    // The file keeps its missing newline at EOF unless a restored line ends it
+    const last = result.length - 1;
+    if (endsWithCurrentLine && !snapshot.currentContent.endsWith('\n') && result[last].endsWith('\n')) {
+      result[last] = result[last].slice(0, -1);
+    }
+
+    if (this.setCurrentContent(snapshot, joinLines(result))) {
+      this.invalidate(filePath);
+      this.emit('change', [filePath]);
+    }
+    return snapshot.currentContent;
+  }
+
+  /**
+   * Key of the content changes are measured against: the baseline, or the
+   * file's version at a checkpoint (its first version if tracked after it)
+   */
+  private getBaseKey(filePath: string, snapshot: StoredSnapshot, since?: string): string {
+    const checkpoint = since === undefined
+      ? undefined
+      : this.checkpoints.find(c => c.label === since);
+    if (!checkpoint) {
+      return snapshot.originalKey;
+    }
+
+    const index = Math.min(checkpoint.versions[filePath] ?? 0, snapshot.versions.length - 1);
+    return snapshot.versionKeys[index];
+  }
+
+  private createSnapshot(originalContent: string, currentContent: string, versions: FileVersion[]): StoredSnapshot {
+    const originalKey = this.contents.retain(originalContent);
+    const currentKey = this.contents.retain(currentContent);
+    const versionKeys = versions.map(version => this.contents.retain(version.content));
+    return {
+      originalContent: this.contents.get(originalKey),
+      currentContent: this.contents.get(currentKey),
+      versions: versions.map((version, i) => ({ ...version, content: this.contents.get(versionKeys[i]) })),
+      originalKey,
+      currentKey,
+      versionKeys,
+    };
+  }
+
+  private setOriginalContent(snapshot: StoredSnapshot, content: string): void {
+    const key = this.contents.retain(content);
+    this.contents.release(snapshot.originalKey);
+    snapshot.originalKey = key;
+    snapshot.originalContent = this.contents.get(key);
+  }
+
+  /**
+   * Update currentContent, appending a history entry when it changed.
+   * Returns whether the content changed.
+   */
+  private setCurrentContent(snapshot: StoredSnapshot, content: string, label?: string): boolean {
+    const key = this.contents.retain(content);
+    this.contents.release(snapshot.currentKey);
+    snapshot.currentKey = key;
+    snapshot.currentContent = this.contents.get(key);
+    if (snapshot.versionKeys[snapshot.versionKeys.length - 1] === key) {
+      return false;
+    }
+    snapshot.versionKeys.push(this.contents.retain(content));
+    snapshot.versions.push({ content: snapshot.currentContent, timestamp: Date.now(), label });
+    return true;
+  }
+
+  /**
+   * Diff between two stored contents, computed once per options
+   */
+  private getCachedDiff(filePath: string, baseKey: string, currentKey: string, options?: DiffOptions): FileDiff {
+    return this.cached(filePath, cacheKey('diff', baseKey, currentKey, options), () => computeDiff(
+      filePath,
+      this.contents.get(baseKey),
+      this.contents.get(currentKey),
+      options
+    ));
+  }
+
+  /**
+   * Cached entry for `key`, computed on first use; a file's oldest entries
+   * are evicted first
+   */
+  private cached<T extends FileDiff | DiffStats>(filePath: string, key: string, compute: () => T): T {
+    let cache = this.diffCache.get(filePath);
+    const entry = cache?.get(key);
+    if (entry) {
+      return entry as T;
+    }
+
+    const computed = compute();
+    if (!cache) {
+      cache = new Map();
+      this.diffCache.set(filePath, cache);
+    } else if (cache.size >= DIFF_CACHE_LIMIT) {
+      cache.delete(cache.keys().next().value!);
+    }
+    cache.set(key, computed);
+    return computed;
+  }
+
+  /**
+   * Drop a file's cached diffs after its contents change
+   */
+  private invalidate(filePath: string): void {
+    this.diffCache.delete(filePath);
+  }
+
+  private emit(type: DiffStateEventType, paths: string[]): void {
+    if (type === 'change') {
+      this._revision++;
+    }
+    for (const listener of this.listeners.get(type) ?? []) {
+      try {
+        listener({ type, paths });
+      } catch {
+        // The change already happened; see on()
+      }
+    }
+  }
+
+  private getHunk(filePath: string, hunkIndex: number, options?: DiffOptions): Hunk | undefined {
+    return this.getFileDiff(filePath, options)?.structuredHunks?.[hunkIndex];
+  }
+
   /**
    * Check if a file is already being tracked
    */
@@ -100,33 +491,40 @@ export class DiffState {
   }
 
   /**
-   * Get count of files with pending changes
+   * Number of `change` events so far, so readers that don't subscribe can
+   * tell whether anything changed since they last looked
+   */
+  get revision(): number {
+    return this._revision;
+  }
+
+  /**
+   * Get count of files with pending changes (one key comparison per file)
    */
   get pendingCount(): number {
     return this.getChangedFiles().length;
   }
 
   /**
-   * Serialize the diff state to JSON
+   * Serialize the diff state to JSON. The result is a copy, so changing
+   * it doesn't affect the state.
    */
   toJSON(): SerializedDiffState {
-    const files: Array<{
-      path: string;
-      originalContent: string;
-      currentContent: string;
-    }> = [];
+    const files: SerializedDiffState['files'] = [];
 
     for (const [path, snapshot] of this.snapshots.entries()) {
       files.push({
         path,
         originalContent: snapshot.originalContent,
         currentContent: snapshot.currentContent,
+        versions: snapshot.versions.map(version => ({ ...version })),
       });
     }
 
     return {
       version: 1,
       files,
+      ...(this.checkpoints.length > 0 ? { checkpoints: this.checkpoints.map(copyCheckpoint) } : {}),
     };
   }
 
@@ -137,12 +535,78 @@ export class DiffState {
     const state = new DiffState();
     
     for (const file of data.files) {
-      state.snapshots.set(file.path, {
-        originalContent: file.originalContent,
-        currentContent: file.currentContent,
-      });
+      const now = Date.now();
+      const versions = file.versions?.slice() ?? [{ content: file.originalContent, timestamp: now }];
+      if (!file.versions && file.currentContent !== file.originalContent) {
+        versions.push({ content: file.currentContent, timestamp: now });
+      }
+
+      state.snapshots.set(file.path, state.createSnapshot(file.originalContent, file.currentContent, versions));
     }
 
+    state.checkpoints = data.checkpoints?.map(copyCheckpoint) ?? [];
+
     return state;
   }
 }
+
+function copyCheckpoint(checkpoint: Checkpoint): Checkpoint {
+  return { ...checkpoint, versions: { ...checkpoint.versions } };
+}
+
+/**
+ * Diff cache key: what was computed, between which contents, with which
+ * options (`since` only selects the base, which baseKey already identifies)
+ */
+function cacheKey(
+  kind: 'diff' | 'stats',
+  baseKey: string,
+  currentKey: string,
+  options?: DiffOptions & ChangeQuery,
+): string {
+  const { since: _since, ...diffOptions } = options ?? {};
+  return `${kind}:${baseKey}:${currentKey}:${JSON.stringify(diffOptions)}`;
+}
+
+/**
+ * Split into lines keeping their terminators, so a missing newline at
+ * EOF survives a round trip through join('')
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Join lines from splitLines(), adding a newline to any line that lost
+ * its place at EOF but is now followed by more lines
+ */
+function joinLines(lines: string[]): string {
+  return lines
+    .map((line, i) => (i < lines.length - 1 && !line.endsWith('\n') ? `${line}\n` : line))
+    .join('');
+}
+
+/**
+ * Replace a hunk's lines in `target` (its `side` of the diff) with the
+ * other side's changed lines from `source`. Context lines keep the
+ * target's text, so differences the diff options ignored (whitespace)
+ * stay as they are.
+ */
+function replaceHunkLines(target: string, hunk: Hunk, side: 'old' | 'new', source: string): string {
+  const targetLines = splitLines(target);
+  const sourceLines = splitLines(source);
+  const [start, count] = side === 'old' ? [hunk.oldStart, hunk.oldLines] : [hunk.newStart, hunk.newLines];
+  const sourceType = side === 'old' ? 'added' : 'removed';
+
+  const replacement: string[] = [];
+  for (const line of hunk.lines) {
+    if (line.type === 'context') {
+      replacement.push(targetLines[(side === 'old' ? line.oldLineNumber! : line.newLineNumber!) - 1]);
+    } else if (line.type === sourceType) {
+      replacement.push(sourceLines[(side === 'old' ? line.newLineNumber! : line.oldLineNumber!) - 1]);
+    }
+  }
+
+  targetLines.splice(start - 1, count, ...replacement);
+  return joinLines(targetLines);
+}
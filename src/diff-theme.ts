@@ -0,0 +1,150 @@
+/**
+ * Colors for rendered diffs, as raw SGR escape sequences ('' for none).
+ * Backgrounds are ended with 49m and foregrounds with a full reset, so
+ * any 16-color, 256-color or truecolor sequence works.
+ */
+export interface DiffTheme {
+  /** Background of added lines */
+  addedBg: string;
+  /** Line number and + prefix of added lines */
+  addedFg: string;
+  /** Background of removed lines */
+  removedBg: string;
+  /** Line number and - prefix of removed lines */
+  removedFg: string;
+  /** Stronger background for changed words within added / removed lines */
+  addedWordBg: string;
+  removedWordBg: string;
+  /** Background of the cursor line */
+  cursorBg: string;
+  /** Background of visual line selections */
+  visualBg: string;
+  /** Context line numbers, separator dots and dividers */
+  gutter: string;
+  /** @@ hunk headers and fold summaries */
+  separator: string;
+}
+
+/** 256-color theme for dark terminals (the default) */
+export const DARK_DIFF_THEME: DiffTheme = {
+  addedBg: '\x1b[48;5;22m',
+  addedFg: '\x1b[32m',
+  removedBg: '\x1b[48;5;52m',
+  removedFg: '\x1b[31m',
+  addedWordBg: '\x1b[48;5;28m',
+  removedWordBg: '\x1b[48;5;88m',
+  cursorBg: '\x1b[48;5;240m',
+  visualBg: '\x1b[48;5;240m',
+  gutter: '\x1b[2m',
+  separator: '\x1b[36m',
+};
+
+/** 256-color theme for light terminals */
+export const LIGHT_DIFF_THEME: DiffTheme = {
+  addedBg: '\x1b[48;5;194m',
+  addedFg: '\x1b[32m',
+  removedBg: '\x1b[48;5;224m',
+  removedFg: '\x1b[31m',
+  addedWordBg: '\x1b[48;5;157m',
+  removedWordBg: '\x1b[48;5;217m',
+  cursorBg: '\x1b[48;5;252m',
+  visualBg: '\x1b[48;5;252m',
+  gutter: '\x1b[2m',
+  separator: '\x1b[34m',
+};
+
+/** Basic 16-color theme: colored prefixes, backgrounds only for changed words and the cursor */
+export const ANSI16_DIFF_THEME: DiffTheme = {
+  addedBg: '',
+  addedFg: '\x1b[32m',
+  removedBg: '',
+  removedFg: '\x1b[31m',
+  addedWordBg: '\x1b[42m',
+  removedWordBg: '\x1b[41m',
+  cursorBg: '\x1b[100m',
+  visualBg: '\x1b[100m',
+  gutter: '\x1b[2m',
+  separator: '\x1b[36m',
+};
+
+/** No colors (e.g. for NO_COLOR); the cursor and selection use reverse video */
+export const NO_COLOR_DIFF_THEME: DiffTheme = {
+  addedBg: '',
+  addedFg: '',
+  removedBg: '',
+  removedFg: '',
+  addedWordBg: '',
+  removedWordBg: '',
+  cursorBg: '\x1b[7m',
+  visualBg: '\x1b[7m',
+  gutter: '',
+  separator: '',
+};
+
+/** Presets by name */
+export const DIFF_THEMES = {
+  dark: DARK_DIFF_THEME,
+  light: LIGHT_DIFF_THEME,
+  ansi16: ANSI16_DIFF_THEME,
+  none: NO_COLOR_DIFF_THEME,
+} satisfies Record<string, DiffTheme>;
+
+export type DiffThemeName = keyof typeof DIFF_THEMES;
+
+/**
+ * Truecolor escape for a "#rrggbb" color, as foreground or background
+ * (for building a DiffTheme on terminals with 24-bit color)
+ */
+export function hexColor(hex: string, layer: 'fg' | 'bg'): string {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) {
+    return '';
+  }
+  const [r, g, b] = match.slice(1).map(part => parseInt(part, 16));
+  return `\x1b[${layer === 'fg' ? 38 : 48};2;${r};${g};${b}m`;
+}
+
+/**
+ * Minimal theme surface diffThemeFromRoles() reads; matches OverlayTheme
+ * plus Pi's optional bg().
+ */
+export interface DiffThemeSource {
+  fg(role: string, text: string): string;
+  bg?(role: string, text: string): string;
+}
+
+/**
+ * Build a DiffTheme from a host theme's color roles: toolDiffAdded /
+ * toolDiffRemoved for the prefixes, dim for the gutter, accent for
+ * separators and selectedBg (when the theme has bg()) for the cursor and
+ * selection. Roles the theme doesn't have or doesn't color keep `base`.
+ */
+export function diffThemeFromRoles(source: DiffThemeSource, base: DiffTheme = DARK_DIFF_THEME): DiffTheme {
+  const fg = (role: string) => openingSequence(text => source.fg(role, text));
+  const selectedBg = source.bg ? openingSequence(text => source.bg!('selectedBg', text)) : undefined;
+
+  return {
+    ...base,
+    addedFg: fg('toolDiffAdded') ?? base.addedFg,
+    removedFg: fg('toolDiffRemoved') ?? base.removedFg,
+    gutter: fg('dim') ?? base.gutter,
+    separator: fg('accent') ?? base.separator,
+    cursorBg: selectedBg ?? base.cursorBg,
+    visualBg: selectedBg ?? base.visualBg,
+  };
+}
+
+/**
+ * Escapes a styling function puts before its text, or undefined if it
+ * adds none (or throws, e.g. for an unknown role)
+ */
+function openingSequence(style: (text: string) => string): string | undefined {
+  const marker = '\u0000';
+  try {
+    const styled = style(marker);
+    const opening = styled.slice(0, styled.indexOf(marker));
+    return opening.includes('\x1b[') ? opening : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -1,90 +1,447 @@
-import type { FileDiff, DiffLine } from './diff-engine.js';
-import { InlineDiffView, type HighlightFn } from './inline-view.js';
+import { getHunks, type FileDiff, type DiffLine, type Hunk } from './diff-engine.js';
+import { InlineDiffView, type GutterMode, type HighlightFn, type ViewState } from './inline-view.js';
+import { SideBySideDiffView } from './side-by-side-view.js';
+import type { DiffTheme } from './diff-theme.js';
+import { SIDE_BY_SIDE_MIN_WIDTH } from './constants.js';
+
+export type DiffLayout = 'inline' | 'sideBySide';
+
+/** ViewState plus the layout its line indices refer to */
+export interface DiffViewState extends ViewState {
+  layout: DiffLayout;
+}
 
 export class DiffViewController {
+  private diff: FileDiff;
   private inlineView: InlineDiffView;
+  private sideBySideView: SideBySideDiffView;
+  private _layout: DiffLayout = 'inline';
+  private layoutOverride?: DiffLayout;
 
-  constructor(diff: FileDiff, highlightFn?: HighlightFn) {
-    this.inlineView = new InlineDiffView(diff, highlightFn);
+  constructor(diff: FileDiff, highlightFn?: HighlightFn, theme?: DiffTheme) {
+    this.diff = diff;
+    this.inlineView = new InlineDiffView(diff, highlightFn, theme);
+    this.sideBySideView = new SideBySideDiffView(diff, highlightFn, theme);
   }
 
   setDiff(diff: FileDiff): void {
+    this.diff = diff;
     this.inlineView.setDiff(diff);
+    this.sideBySideView.setDiff(diff);
+  }
+
+  /**
+   * Replace the diff with a re-computed one for the same file, keeping the
+   * cursor on the same logical line (same old/new line number, or the
+   * nearest one) at the same screen row. A cursor on a separator stays on
+   * the separator of the same hunk, and one on a fold row stays on that
+   * hunk's fold. Folded hunks stay folded, found again by their start
+   * lines; folds of hunks that are gone are dropped. Visual mode is left.
+   */
+  updateDiff(diff: FileDiff): void {
+    const view = this.activeView;
+    const anchor = view.getCursorDiffLine();
+    const cursorLine = view.cursorLine;
+    const screenRow = view.getDisplayRow(cursorLine) - view.scrollOffset;
+    const separatorHunk = view.isSeparatorLine(cursorLine) ? this.getCursorHunkIndex() : -1;
+    const oldHunks = getHunks(this.diff);
+    const newHunks = getHunks(diff);
+    const foldHunk = view.isFoldLine(cursorLine) ? findHunk(newHunks, oldHunks[this.getCursorHunkIndex()]) : -1;
+    const folded = view.getFoldedHunks().map(h => findHunk(newHunks, oldHunks[h])).filter(h => h !== -1);
+
+    this.setDiff(diff);
+    this.setFoldedHunks(folded);
+
+    let target = -1;
+    if (separatorHunk !== -1) {
+      target = this.getSeparatorLine(separatorHunk);
+    } else if (foldHunk !== -1) {
+      target = view.getLineForDiffLineIndex(this.getFirstLineIndex(foldHunk));
+    } else if (anchor) {
+      const lineIndex = findAnchorIndex(diff.hunks, anchor);
+      target = lineIndex === -1 ? -1 : view.getLineForDiffLineIndex(lineIndex);
+    }
+    view.setCursor(target === -1 ? cursorLine : target);
+    view.setScrollOffset(view.getDisplayRow(view.cursorLine) - screenRow);
+  }
+
+  /**
+   * Position of the active view, for restoring with setViewState()
+   */
+  getViewState(): DiffViewState {
+    return { ...this.activeView.getViewState(), layout: this._layout };
+  }
+
+  /**
+   * Restore a position from getViewState(). If a different layout is
+   * rendered later, the cursor is carried over as on any layout switch.
+   */
+  setViewState(state: DiffViewState): void {
+    this._layout = state.layout;
+    this.setFoldedHunks(state.folded ?? []);
+    this.activeView.setViewState(state);
+  }
+
+  // Layout methods
+  /** Layout currently shown (resolved from width on render unless overridden) */
+  get layout(): DiffLayout {
+    return this._layout;
+  }
+
+  /**
+   * Force a layout, or pass undefined to go back to picking one by width
+   */
+  setLayout(layout: DiffLayout | undefined): void {
+    this.layoutOverride = layout;
+    if (layout) {
+      this.switchLayout(layout);
+    }
+  }
+
+  toggleLayout(): void {
+    this.setLayout(this._layout === 'inline' ? 'sideBySide' : 'inline');
+  }
+
+  private get activeView(): InlineDiffView | SideBySideDiffView {
+    return this._layout === 'sideBySide' ? this.sideBySideView : this.inlineView;
+  }
+
+  /**
+   * Activate a layout, carrying the cursor over to the same DiffLine
+   */
+  private switchLayout(layout: DiffLayout): void {
+    if (layout === this._layout) {
+      return;
+    }
+
+    const from = this.activeView;
+    this._layout = layout;
+    const to = this.activeView;
+
+    // A fold row maps to the other layout's fold row via the hunk's first line
+    const lineIndex = from.isFoldLine(from.cursorLine)
+      ? this.getFirstLineIndex(from.getHunkIndexAt(from.cursorLine))
+      : from.getDiffLineIndexAt(from.cursorLine);
+    const target = lineIndex === -1 ? -1 : to.getLineForDiffLineIndex(lineIndex);
+    to.exitVisualMode();
+    to.setCursor(target === -1 ? from.cursorLine : target);
+    from.exitVisualMode();
   }
 
   // Scroll methods
   scrollUp(lines?: number): void {
-    this.inlineView.scrollUp(lines);
+    this.activeView.scrollUp(lines);
   }
 
   scrollDown(lines?: number): void {
-    this.inlineView.scrollDown(lines);
+    this.activeView.scrollDown(lines);
+  }
+
+  get columnOffset(): number {
+    return this.activeView.columnOffset;
+  }
+
+  /**
+   * Pan line content horizontally in both layouts, gutters staying fixed
+   */
+  setColumnOffset(offset: number): void {
+    this.inlineView.setColumnOffset(offset);
+    this.sideBySideView.setColumnOffset(offset);
+  }
+
+  scrollLeft(columns: number = 1): void {
+    this.setColumnOffset(this.columnOffset - columns);
+  }
+
+  scrollRight(columns: number = 1): void {
+    this.setColumnOffset(this.columnOffset + columns);
   }
 
   scrollToTop(): void {
-    this.inlineView.scrollToTop();
+    this.activeView.scrollToTop();
   }
 
   scrollToBottom(): void {
-    this.inlineView.scrollToBottom();
+    this.activeView.scrollToBottom();
   }
 
   // Render methods
   render(width: number, visibleHeight: number): string[] {
-    return this.inlineView.render(width, visibleHeight);
+    const layout = this.layoutOverride
+      ?? (width >= SIDE_BY_SIDE_MIN_WIDTH ? 'sideBySide' : 'inline');
+    this.switchLayout(layout);
+    return this.activeView.render(width, visibleHeight);
   }
 
   get totalLines(): number {
-    return this.inlineView.totalLines;
+    return this.activeView.totalLines;
+  }
+
+  /** Display rows, counting wrapped continuation rows */
+  get totalRows(): number {
+    return this.activeView.totalRows;
+  }
+
+  /**
+   * Line at a viewport row of the last render, or -1
+   */
+  getLineAtRow(row: number): number {
+    return this.activeView.getLineAtRow(row);
+  }
+
+  get gutterMode(): GutterMode {
+    return this.inlineView.gutterMode;
+  }
+
+  /**
+   * Line-number columns of the inline layout (side-by-side always shows
+   * old numbers on the left and new ones on the right)
+   */
+  setGutterMode(mode: GutterMode): void {
+    this.inlineView.setGutterMode(mode);
+  }
+
+  get wrap(): boolean {
+    return this.inlineView.wrap;
+  }
+
+  /**
+   * Soft-wrap long lines (true) or truncate them (false) in both layouts
+   */
+  setWrap(wrap: boolean): void {
+    this.inlineView.setWrap(wrap);
+    this.sideBySideView.setWrap(wrap);
   }
 
   get scrollOffset(): number {
-    return this.inlineView.scrollOffset;
+    return this.activeView.scrollOffset;
   }
 
   // Cursor methods
   get cursorLine(): number {
-    return this.inlineView.cursorLine;
+    return this.activeView.cursorLine;
   }
 
   moveCursor(delta: number): void {
-    this.inlineView.moveCursor(delta);
+    this.activeView.moveCursor(delta);
   }
 
   setCursor(line: number): void {
-    this.inlineView.setCursor(line);
+    this.activeView.setCursor(line);
   }
 
   getCursorDiffLine(): DiffLine | undefined {
-    return this.inlineView.getCursorDiffLine();
+    return this.activeView.getCursorDiffLine();
   }
 
   isSeparatorLine(index: number): boolean {
-    return this.inlineView.isSeparatorLine(index);
+    return this.activeView.isSeparatorLine(index);
+  }
+
+  isFoldLine(index: number): boolean {
+    return this.activeView.isFoldLine(index);
+  }
+
+  /**
+   * Line showing diff.hunks[lineIndex] in the active layout (-1 if not rendered)
+   */
+  getLineForDiffLineIndex(lineIndex: number): number {
+    return this.activeView.getLineForDiffLineIndex(lineIndex);
+  }
+
+  getChangeBlockStarts(): number[] {
+    return this.activeView.getChangeBlockStarts();
+  }
+
+  /**
+   * Move the cursor to the start of the next (1) or previous (-1) change
+   * block. Returns false, leaving the cursor alone, if there is none.
+   */
+  jumpToChangeBlock(direction: 1 | -1): boolean {
+    return this.jumpToLine(this.getChangeBlockStarts(), direction);
+  }
+
+  /**
+   * Move to the first of `lines` after the cursor (or last before it)
+   */
+  private jumpToLine(lines: number[], direction: 1 | -1): boolean {
+    const cursor = this.cursorLine;
+    const target = direction === 1
+      ? lines.find(line => line > cursor)
+      : lines.filter(line => line < cursor).pop();
+    if (target === undefined) {
+      return false;
+    }
+    this.setCursor(target);
+    return true;
+  }
+
+  /**
+   * Highlight search matches in both layouts (undefined clears them)
+   */
+  setSearch(regex: RegExp | undefined): void {
+    this.inlineView.setSearch(regex);
+    this.sideBySideView.setSearch(regex);
+  }
+
+  getSearchMatchLines(): number[] {
+    return this.activeView.getSearchMatchLines();
+  }
+
+  /**
+   * Move the cursor to the next (1) or previous (-1) line with a search
+   * match. Returns false, leaving the cursor alone, if there is none.
+   */
+  jumpToSearchMatch(direction: 1 | -1): boolean {
+    return this.jumpToLine(this.getSearchMatchLines(), direction);
+  }
+
+  /** Number of @@ hunks in the diff */
+  get hunkCount(): number {
+    return getHunks(this.diff).length;
+  }
+
+  /**
+   * Index into getHunks(diff) of the hunk under the cursor. A separator
+   * belongs to the hunk whose header it shows. Returns -1 for an empty diff.
+   */
+  getCursorHunkIndex(): number {
+    return this.activeView.getHunkIndexAt(this.cursorLine);
+  }
+
+  // Fold methods
+  /** Indices into getHunks(diff) of folded hunks, ascending */
+  getFoldedHunks(): number[] {
+    return this.activeView.getFoldedHunks();
+  }
+
+  /**
+   * Fold exactly the given hunks in both layouts
+   */
+  setFoldedHunks(hunkIndices: number[]): void {
+    this.inlineView.setFoldedHunks(hunkIndices);
+    this.sideBySideView.setFoldedHunks(hunkIndices);
+  }
+
+  /**
+   * Fold (true) or unfold (false) the hunk under the cursor
+   */
+  setCursorFold(folded: boolean): void {
+    const hunkIndex = this.getCursorHunkIndex();
+    if (hunkIndex === -1) {
+      return;
+    }
+    const others = this.getFoldedHunks().filter(h => h !== hunkIndex);
+    this.setFoldedHunks(folded ? [...others, hunkIndex] : others);
+  }
+
+  toggleCursorFold(): void {
+    this.setCursorFold(!this.getFoldedHunks().includes(this.getCursorHunkIndex()));
+  }
+
+  foldAll(): void {
+    this.setFoldedHunks(getHunks(this.diff).map((_, h) => h));
+  }
+
+  unfoldAll(): void {
+    this.setFoldedHunks([]);
+  }
+
+  /**
+   * Index into diff.hunks of the first line of hunk `hunkIndex` (-1 if none)
+   */
+  private getFirstLineIndex(hunkIndex: number): number {
+    const hunks = getHunks(this.diff);
+    if (hunkIndex < 0 || hunkIndex >= hunks.length) {
+      return -1;
+    }
+
+    let firstLine = 0;
+    for (let h = 0; h < hunkIndex; h++) {
+      firstLine += hunks[h].lines.length;
+    }
+    return firstLine;
+  }
+
+  /**
+   * Separator line shown before hunk `hunkIndex` (-1 for the first hunk)
+   */
+  private getSeparatorLine(hunkIndex: number): number {
+    if (hunkIndex <= 0) {
+      return -1;
+    }
+    const firstLine = this.getFirstLineIndex(hunkIndex);
+    const line = firstLine === -1 ? -1 : this.activeView.getLineForDiffLineIndex(firstLine) - 1;
+    return this.activeView.isSeparatorLine(line) ? line : -1;
   }
 
   // Visual mode methods
   get isVisualMode(): boolean {
-    return this.inlineView.isVisualMode;
+    return this.activeView.isVisualMode;
   }
 
   enterVisualMode(): void {
-    this.inlineView.enterVisualMode();
+    this.activeView.enterVisualMode();
   }
 
   exitVisualMode(): void {
-    this.inlineView.exitVisualMode();
+    this.activeView.exitVisualMode();
   }
 
   getVisualRange(): [number, number] {
-    return this.inlineView.getVisualRange();
+    return this.activeView.getVisualRange();
   }
 
   getSelectedRawLines(): string[] {
-    return this.inlineView.getSelectedRawLines();
+    return this.activeView.getSelectedRawLines();
   }
 
   getSelectedDiffLines(): DiffLine[] {
-    return this.inlineView.getSelectedDiffLines();
+    return this.activeView.getSelectedDiffLines();
+  }
+}
+
+/**
+ * Index of the hunk in `hunks` that starts where `hunk` does on both
+ * sides, else on either side (edits above a hunk move only one side's
+ * start). -1 if none does.
+ */
+function findHunk(hunks: Hunk[], hunk: Hunk | undefined): number {
+  if (!hunk) {
+    return -1;
+  }
+  const both = hunks.findIndex(h => h.oldStart === hunk.oldStart && h.newStart === hunk.newStart);
+  return both !== -1 ? both : hunks.findIndex(h => h.oldStart === hunk.oldStart || h.newStart === hunk.newStart);
+}
+
+/**
+ * Index of the line with the anchor's line number, or the nearest one.
+ * Old line numbers are preferred since the baseline doesn't move while
+ * the current content is edited; added lines only have new ones. Ties
+ * prefer a line of the same type. -1 if none.
+ */
+function findAnchorIndex(lines: DiffLine[], anchor: DiffLine): number {
+  const side = anchor.oldLineNumber !== undefined ? 'oldLineNumber' : 'newLineNumber';
+  const target = anchor[side];
+  if (target === undefined) {
+    return -1;
+  }
+
+  let best = -1;
+  let bestDistance = Infinity;
+  for (let i = 0; i < lines.length; i++) {
+    const lineNumber = lines[i][side];
+    if (lineNumber === undefined) {
+      continue;
+    }
+    const distance = Math.abs(lineNumber - target);
+    const sameTypeTie = distance === bestDistance
+      && lines[i].type === anchor.type
+      && lines[best].type !== anchor.type;
+    if (distance < bestDistance || sameTypeTie) {
+      best = i;
+      bestDistance = distance;
+    }
   }
+  return best;
 }
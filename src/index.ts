@@ -1,35 +1,74 @@
 // Core
-export { computeDiff } from "./diff-engine.js";
-export type { DiffLine, FileDiff } from "./diff-engine.js";
+export { computeDiff, computeDiffStats, formatFoldSummary, formatHunkHeader, getHiddenLines, getHunks } from "./diff-engine.js";
+export type { ChangeRange, DiffLine, DiffOptions, DiffStats, FileDiff, Hunk, IgnoreWhitespace, LineRange } from "./diff-engine.js";
+
+// Search
+export { compileSearch, findMatches, searchDiff } from "./search.js";
+export type { SearchHit } from "./search.js";
 
 // State
 export { DiffState } from "./diff-state.js";
-export type { FileSnapshot, SerializedDiffState } from "./diff-state.js";
+export type {
+  Checkpoint,
+  ChangeQuery,
+  DiffStateEvent,
+  DiffStateEventType,
+  DiffStateListener,
+  FileSnapshot,
+  FileVersion,
+  SerializedDiffState,
+} from "./diff-state.js";
 
 // Views
 export { InlineDiffView } from "./inline-view.js";
-export type { HighlightFn } from "./inline-view.js";
+export type { GutterMode, HighlightFn, ViewState } from "./inline-view.js";
+export { SideBySideDiffView } from "./side-by-side-view.js";
 export { DiffViewController } from "./diff-view-controller.js";
+export type { DiffLayout, DiffViewState } from "./diff-view-controller.js";
+
+// Theme
+export {
+  ANSI16_DIFF_THEME,
+  DARK_DIFF_THEME,
+  DIFF_THEMES,
+  LIGHT_DIFF_THEME,
+  NO_COLOR_DIFF_THEME,
+  diffThemeFromRoles,
+  hexColor,
+} from "./diff-theme.js";
+export type { DiffTheme, DiffThemeName, DiffThemeSource } from "./diff-theme.js";
 
 // Modal
 export { DiffReviewModal } from "./modal.js";
 export type { ModalFileEntry } from "./modal.js";
 
+// Keymaps
+export { formatHelpLine, formatKeymapHelp, formatKeySpec, KeySequenceMatcher, resolveKeymap } from "./keymap.js";
+export type { HelpEntry, Keymap, KeySpec, ResolvedKeymap } from "./keymap.js";
+
+// Mouse
+export { MOUSE_TRACKING_OFF, MOUSE_TRACKING_ON, parseMouseInput } from "./mouse.js";
+export type { MouseAction, MouseButton, MouseInput } from "./mouse.js";
+
 // Overlay
-export { createOverlayHandler } from "./overlay.js";
+export { createOverlayHandler, DEFAULT_OVERLAY_KEYMAP, formatOverlayHelp, OVERLAY_ACTION_DESCRIPTIONS } from "./overlay.js";
 export type {
+  OverlayAction,
+  OverlayKeymap,
   OverlayTui,
   OverlayTheme,
   OverlayKeyUtils,
   HighlightProvider,
   OverlayCallbacks,
   OverlayHandler,
+  DiffOverlayHandler,
   OverlayOptions,
+  OverlayViewState,
 } from "./overlay.js";
 
 // Picker
-export { createPickerHandler } from "./picker.js";
-export type { PickerItem, PickerCallbacks } from "./picker.js";
+export { createPickerHandler, DEFAULT_PICKER_KEYMAP } from "./picker.js";
+export type { PickerAction, PickerCallbacks, PickerItem, PickerKeymap, PickerOptions } from "./picker.js";
 
 // Constants
 export {
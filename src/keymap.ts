@@ -0,0 +1,254 @@
+import type { OverlayKeyUtils } from "./overlay.js";
+
+/**
+ * A key sequence as typed: plain characters ("n", "]c", "gg") plus named
+ * keys in angle brackets — <Esc>, <Enter>, <Tab>, <Up>, <Down>, <PageUp>,
+ * <PageDown>, <Space>, <C-x> (Ctrl) and <M-x> (Alt) — e.g. "<C-x><C-s>".
+ * A "<" that doesn't start a named key is literal, so "<" alone is the
+ * less-than key.
+ */
+export type KeySpec = string;
+
+/**
+ * Key specs per named action. Actions left out keep their defaults; an
+ * empty list unbinds one (e.g. `{ dismiss: [] }` frees "d").
+ */
+export type Keymap<A extends string> = Partial<Record<A, KeySpec | KeySpec[]>>;
+
+/** A keymap with every action resolved to its list of specs */
+export type ResolvedKeymap<A extends string> = Record<A, KeySpec[]>;
+
+/**
+ * One help line entry: the first key of each bound action, then a label
+ * ("n/p files"). Keys are joined with "/" unless `joiner` says otherwise
+ * and every key is a single character.
+ */
+export interface HelpEntry<A extends string> {
+  actions: A[];
+  label: string;
+  joiner?: string;
+}
+
+/** One key of a sequence: a typed character or a named key ("Esc", "C-d") */
+type KeyToken = { char: string } | { name: string };
+
+const NAMED_KEY = /^<(esc|enter|tab|up|down|pageup|pagedown|space|[cm]-.)>/i;
+
+/** Named keys as written in specs, by lowercase name */
+const KEY_NAMES: Record<string, string> = {
+  esc: "Esc",
+  enter: "Enter",
+  tab: "Tab",
+  up: "Up",
+  down: "Down",
+  pageup: "PageUp",
+  pagedown: "PageDown",
+  space: "Space",
+};
+
+/** How named keys are shown in help text */
+const KEY_LABELS: Record<string, string> = {
+  Up: "↑",
+  Down: "↓",
+  PageUp: "PgUp",
+  PageDown: "PgDn",
+};
+
+/**
+ * Terminal input for named keys that OverlayKeyUtils.Key has no entry
+ * for (xterm sequences)
+ */
+const RAW_KEYS: Record<string, string> = {
+  PageUp: "\x1b[5~",
+  PageDown: "\x1b[6~",
+  Space: " ",
+};
+
+/**
+ * Split a spec into its keys
+ */
+function parseKeySpec(spec: KeySpec): KeyToken[] {
+  const tokens: KeyToken[] = [];
+  let i = 0;
+  while (i < spec.length) {
+    const named = NAMED_KEY.exec(spec.slice(i));
+    if (named) {
+      tokens.push({ name: normalizeKeyName(named[1]) });
+      i += named[0].length;
+    } else {
+      tokens.push({ char: spec[i] });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * "esc" → "Esc", "c-D" → "C-d" (modified letters are matched lowercase)
+ */
+function normalizeKeyName(name: string): string {
+  if (/^[cm]-.$/i.test(name)) {
+    return `${name[0].toUpperCase()}-${name[2].toLowerCase()}`;
+  }
+  return KEY_NAMES[name.toLowerCase()];
+}
+
+/**
+ * Spec as shown in help text: "]c", "Ctrl+D", "Ctrl+X Ctrl+S"
+ */
+export function formatKeySpec(spec: KeySpec): string {
+  const tokens = parseKeySpec(spec);
+  const labels = tokens.map(token => {
+    if ("char" in token) {
+      return token.char === " " ? "Space" : token.char;
+    }
+    const modifier = token.name.match(/^([CM])-(.)$/);
+    if (modifier) {
+      return `${modifier[1] === "C" ? "Ctrl" : "Alt"}+${modifier[2].toUpperCase()}`;
+    }
+    return KEY_LABELS[token.name] ?? token.name;
+  });
+  return labels.join(tokens.some(token => "name" in token) && tokens.length > 1 ? " " : "");
+}
+
+/**
+ * Defaults with `overrides` applied per action
+ */
+export function resolveKeymap<A extends string>(
+  defaults: ResolvedKeymap<A>,
+  overrides?: Keymap<A>,
+): ResolvedKeymap<A> {
+  const keymap = { ...defaults };
+  for (const [action, specs] of Object.entries(overrides ?? {}) as Array<[A, KeySpec | KeySpec[] | undefined]>) {
+    if (specs !== undefined && action in defaults) {
+      keymap[action] = typeof specs === "string" ? [specs] : specs.slice();
+    }
+  }
+  return keymap;
+}
+
+/**
+ * Help line from a keymap, e.g. "n/p files  d dismiss  Ctrl+D/U scroll".
+ * Entries whose actions are all unbound are left out.
+ */
+export function formatHelpLine<A extends string>(keymap: ResolvedKeymap<A>, entries: HelpEntry<A>[]): string {
+  const parts: string[] = [];
+  for (const entry of entries) {
+    const keys = entry.actions
+      .map(action => keymap[action][0])
+      .filter((spec): spec is KeySpec => spec !== undefined)
+      .map(formatKeySpec);
+    if (keys.length === 0) {
+      continue;
+    }
+    // Run-together keys ("<>,.") only stay readable while each is one character
+    const joiner = entry.joiner !== undefined && keys.every(key => [...key].length === 1) ? entry.joiner : "/";
+
+    // "Ctrl+D/Ctrl+U" reads better as "Ctrl+D/U"
+    const prefix = /^(Ctrl|Alt)\+/.exec(keys[0])?.[0];
+    const shown = keys.map((key, i) => (i > 0 && prefix && joiner === "/" && key.startsWith(prefix) && key.length === prefix.length + 1
+      ? key.slice(prefix.length)
+      : key));
+    parts.push(`${shown.join(joiner)} ${entry.label}`);
+  }
+  return parts.join("  ");
+}
+
+/**
+ * Help screen rows for `actions`: every key bound to each action, then
+ * its description, in aligned columns. Unbound actions are left out.
+ */
+export function formatKeymapHelp<A extends string>(
+  keymap: ResolvedKeymap<A>,
+  actions: A[],
+  descriptions: Record<A, string>,
+): string[] {
+  const rows = actions
+    .filter(action => keymap[action].length > 0)
+    .map(action => [keymap[action].map(formatKeySpec).join(" "), descriptions[action]] as const);
+  const keyWidth = rows.reduce((width, [keys]) => Math.max(width, keys.length), 0);
+  return rows.map(([keys, description]) => `${keys.padEnd(keyWidth)}  ${description}`);
+}
+
+/**
+ * Matches input against a keymap one key at a time, so multi-key
+ * sequences ("gg", "]c") work alongside single keys. A sequence that is
+ * a prefix of a longer one waits for the next key, so "g" can't be bound
+ * next to "gg".
+ */
+export class KeySequenceMatcher<A extends string> {
+  private bindings: Array<{ action: A; tokens: KeyToken[] }> = [];
+  private pending: string[] = [];
+
+  constructor(
+    keymap: ResolvedKeymap<A>,
+    private keyUtils: Pick<OverlayKeyUtils, "matchesKey" | "Key">,
+  ) {
+    for (const [action, specs] of Object.entries(keymap) as Array<[A, KeySpec[]]>) {
+      for (const spec of specs) {
+        const tokens = parseKeySpec(spec);
+        if (tokens.length > 0) {
+          this.bindings.push({ action, tokens });
+        }
+      }
+    }
+  }
+
+  /** Keys typed so far of an unfinished sequence */
+  get pendingKeys(): string {
+    return this.pending.join("");
+  }
+
+  /**
+   * Feed one key. Returns the actions bound to the sequence it completes
+   * (in keymap order, for callers that let several actions share a key),
+   * [] when nothing is bound, or undefined while a sequence is unfinished.
+   */
+  feed(data: string): A[] | undefined {
+    const keys = [...this.pending, data];
+    const candidates = this.bindings.filter(binding =>
+      binding.tokens.length >= keys.length && keys.every((key, i) => this.matches(key, binding.tokens[i]))
+    );
+
+    if (candidates.some(binding => binding.tokens.length > keys.length)) {
+      this.pending = keys;
+      return undefined;
+    }
+    if (candidates.length > 0) {
+      this.pending = [];
+      return [...new Set(candidates.map(binding => binding.action))];
+    }
+
+    if (this.pending.length > 0) {
+      this.pending = [];
+      // Escape only cancels the sequence; any other key starts a new one
+      return this.matches(data, { name: "Esc" }) ? [] : this.feed(data);
+    }
+    return [];
+  }
+
+  /** Drop an unfinished sequence */
+  reset(): void {
+    this.pending = [];
+  }
+
+  private matches(data: string, token: KeyToken): boolean {
+    if ("char" in token) {
+      return data === token.char;
+    }
+
+    const { matchesKey, Key } = this.keyUtils;
+    switch (token.name) {
+      case "Esc": return matchesKey(data, Key.escape);
+      case "Enter": return matchesKey(data, Key.enter);
+      case "Tab": return matchesKey(data, Key.tab);
+      case "Up": return matchesKey(data, Key.up);
+      case "Down": return matchesKey(data, Key.down);
+    }
+    if (token.name in RAW_KEYS) {
+      return data === RAW_KEYS[token.name];
+    }
+    const key = token.name.slice(2);
+    return token.name[0] === "C" ? matchesKey(data, Key.ctrl(key)) : data === `\x1b${key}`;
+  }
+}
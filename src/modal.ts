@@ -1,5 +1,6 @@
-import { DiffState } from './diff-state.js';
-import { FileDiff } from './diff-engine.js';
+import { DiffState, FileVersion } from './diff-state.js';
+import { DiffLine, DiffOptions, FileDiff, LineRange } from './diff-engine.js';
+import { searchDiff, SearchHit } from './search.js';
 
 export interface ModalFileEntry {
   path: string;
@@ -13,22 +14,113 @@ export class DiffReviewModal {
   private _fileList: ModalFileEntry[] = [];
   private _filePickerOpen: boolean = false;
   private _filePickerIndex: number = 0;
+  private _since: string | undefined;
+  private changeListeners: Set<(paths: string[]) => void> = new Set();
+  private unsubscribe: (() => void) | undefined;
+  // DiffState revision the file list was last refreshed at
+  private seenRevision = -1;
 
-  constructor(private diffState: DiffState) {
+  constructor(private diffState: DiffState, private _diffOptions: DiffOptions = {}) {
     this.refresh();
   }
 
+  /**
+   * Called with the changed paths after the modal has refreshed
+   * for a DiffState change. Returns a function that unsubscribes.
+   * The modal subscribes to the DiffState only while it has listeners;
+   * without any, it catches up with changes when next read.
+   */
+  onChange(listener: (paths: string[]) => void): () => void {
+    if (!this.unsubscribe) {
+      this.unsubscribe = this.diffState.on('change', event => {
+        this.refresh(event.paths);
+        for (const changeListener of this.changeListeners) {
+          changeListener(event.paths);
+        }
+      });
+    }
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+      if (this.changeListeners.size === 0) {
+        this.dispose();
+      }
+    };
+  }
+
+  /**
+   * Drop all change listeners and the DiffState subscription
+   */
+  dispose(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    this.changeListeners.clear();
+  }
+
+  /**
+   * Refresh if the DiffState changed while nothing was subscribed
+   */
+  private sync(): void {
+    if (this.seenRevision !== this.diffState.revision) {
+      this.refresh();
+    }
+  }
+
+  /** The file list, synced first */
+  private get fileList(): ModalFileEntry[] {
+    this.sync();
+    return this._fileList;
+  }
+
+  /**
+   * Options used for every diff computed by the modal
+   */
+  get diffOptions(): DiffOptions {
+    return this._diffOptions;
+  }
+
+  /**
+   * Replace the diff options and recompute the file list
+   */
+  setDiffOptions(options: DiffOptions): void {
+    this._diffOptions = options;
+    this.refresh();
+  }
+
+  /**
+   * Checkpoint label changes are shown since (undefined = since baseline)
+   */
+  get since(): string | undefined {
+    return this._since;
+  }
+
+  /**
+   * Show changes since a checkpoint (or the baseline) and recompute the file list
+   */
+  setSince(label: string | undefined): void {
+    this._since = label;
+    this.refresh();
+  }
+
+  /**
+   * Get checkpoint labels recorded in the DiffState, oldest first
+   */
+  getCheckpoints(): string[] {
+    return this.diffState.getCheckpoints();
+  }
+
   /**
    * Get the list of files with changes for display
    */
   getFileList(): ModalFileEntry[] {
-    return this._fileList;
+    return this.fileList;
   }
 
   /**
    * Get currently selected index
    */
   get selectedIndex(): number {
+    this.sync();
     return this._selectedIndex;
   }
 
@@ -36,31 +128,30 @@ export class DiffReviewModal {
    * Get currently selected file path
    */
   get selectedFile(): string | undefined {
-    if (this._fileList.length === 0) {
-      return undefined;
-    }
-    return this._fileList[this._selectedIndex]?.path;
+    return this.fileList[this._selectedIndex]?.path;
   }
 
   /**
    * Select next file (wraps around)
    */
   selectNext(): void {
-    if (this._fileList.length === 0) {
+    const files = this.fileList;
+    if (files.length === 0) {
       return;
     }
-    this._selectedIndex = (this._selectedIndex + 1) % this._fileList.length;
+    this._selectedIndex = (this._selectedIndex + 1) % files.length;
   }
 
   /**
    * Select previous file (wraps around)
    */
   selectPrevious(): void {
-    if (this._fileList.length === 0) {
+    const files = this.fileList;
+    if (files.length === 0) {
       return;
     }
     this._selectedIndex = this._selectedIndex === 0 
-      ? this._fileList.length - 1 
+      ? files.length - 1 
       : this._selectedIndex - 1;
   }
 
@@ -68,22 +159,56 @@ export class DiffReviewModal {
    * Select file at specific index (clamped to valid range)
    */
   selectIndex(index: number): void {
-    if (this._fileList.length === 0) {
+    const files = this.fileList;
+    if (files.length === 0) {
       this._selectedIndex = 0;
       return;
     }
-    this._selectedIndex = Math.max(0, Math.min(index, this._fileList.length - 1));
+    this._selectedIndex = Math.max(0, Math.min(index, files.length - 1));
+  }
+
+  /**
+   * Get diff for currently selected file, optionally with extra context
+   * lines revealed (see DiffOptions.reveal)
+   */
+  getSelectedDiff(reveal?: LineRange[]): FileDiff | undefined {
+    const selectedPath = this.selectedFile;
+    if (!selectedPath) {
+      return undefined;
+    }
+    return this.diffState.getFileDiff(selectedPath, { ...this._diffOptions, since: this._since, reveal });
+  }
+
+  /**
+   * Search the raw content of every listed file's diff, in file list order
+   */
+  searchFiles(regex: RegExp): SearchHit[] {
+    return this.fileList.flatMap(file => {
+      const diff = this.diffState.getFileDiff(file.path, { ...this._diffOptions, since: this._since });
+      return diff ? searchDiff(diff, regex) : [];
+    });
+  }
+
+  /**
+   * Get the version history of the currently selected file
+   */
+  getSelectedHistory(): FileVersion[] {
+    const selectedPath = this.selectedFile;
+    if (!selectedPath) {
+      return [];
+    }
+    return this.diffState.getHistory(selectedPath);
   }
 
   /**
-   * Get diff for currently selected file
+   * Get the diff between two history versions of the currently selected file
    */
-  getSelectedDiff(): FileDiff | undefined {
+  getSelectedVersionDiff(fromIndex: number, toIndex: number): FileDiff | undefined {
     const selectedPath = this.selectedFile;
     if (!selectedPath) {
       return undefined;
     }
-    return this.diffState.getFileDiff(selectedPath);
+    return this.diffState.diffVersions(selectedPath, fromIndex, toIndex, this._diffOptions);
   }
 
   /**
@@ -108,6 +233,45 @@ export class DiffReviewModal {
     return true;
   }
 
+  /**
+   * Accept one hunk of the selected file (fold it into the baseline)
+   * Returns false if nothing selected or the hunk doesn't exist
+   */
+  acceptHunk(hunkIndex: number): boolean {
+    const selectedPath = this.selectedFile;
+    if (!selectedPath) {
+      return false;
+    }
+
+    return this.diffState.acceptHunk(selectedPath, hunkIndex, this._diffOptions);
+  }
+
+  /**
+   * Reject one hunk of the selected file (revert it in the current content)
+   * Returns the new file content, or undefined if nothing was reverted
+   */
+  rejectHunk(hunkIndex: number): string | undefined {
+    const selectedPath = this.selectedFile;
+    if (!selectedPath) {
+      return undefined;
+    }
+
+    return this.diffState.rejectHunk(selectedPath, hunkIndex, this._diffOptions);
+  }
+
+  /**
+   * Revert the given diff lines of the selected file
+   * Returns the new file content, or undefined if nothing selected
+   */
+  revertLines(lines: DiffLine[]): string | undefined {
+    const selectedPath = this.selectedFile;
+    if (!selectedPath) {
+      return undefined;
+    }
+
+    return this.diffState.revertLines(selectedPath, lines, this._diffOptions);
+  }
+
   /**
    * Get the path of the currently selected file
    */
@@ -116,26 +280,47 @@ export class DiffReviewModal {
   }
 
   /**
-   * Refresh file list from DiffState (call after state changes)
+   * Refresh file list from DiffState (runs automatically on DiffState changes).
+   * With `changedPaths`, only those files' counts are recomputed.
    */
-  refresh(): void {
-    const changedFiles = this.diffState.getChangedFiles();
+  refresh(changedPaths?: string[]): void {
+    this.seenRevision = this.diffState.revision;
+    // Selection follows paths, so reordering or shrinking keeps the same file
+    const selectedPath = this._fileList[this._selectedIndex]?.path;
+    const pickerPath = this._fileList[this._filePickerIndex]?.path;
+
+    const stale = changedPaths && new Set(changedPaths);
+    const previous = new Map(this._fileList.map(entry => [entry.path, entry]));
+    const changedFiles = this.diffState.getChangedFiles({ since: this._since });
     this._fileList = changedFiles.map(path => {
-      const diff = this.diffState.getFileDiff(path);
+      const cached = stale && !stale.has(path) ? previous.get(path) : undefined;
+      if (cached) {
+        return cached;
+      }
+      // Counts only: the full diff is computed when a file is shown
+      const stats = this.diffState.getFileStats(path, { ...this._diffOptions, since: this._since });
       return {
         path,
-        additions: diff?.additions ?? 0,
-        deletions: diff?.deletions ?? 0,
-        isNewFile: diff?.isNewFile ?? false,
+        additions: stats?.additions ?? 0,
+        deletions: stats?.deletions ?? 0,
+        isNewFile: stats?.isNewFile ?? false,
       };
     });
 
-    // Clamp selection index to valid range
-    if (this._fileList.length === 0) {
-      this._selectedIndex = 0;
-    } else if (this._selectedIndex >= this._fileList.length) {
-      this._selectedIndex = this._fileList.length - 1;
+    this._selectedIndex = this.indexOfPath(selectedPath, this._selectedIndex);
+    this._filePickerIndex = this.indexOfPath(pickerPath, this._filePickerIndex);
+  }
+
+  /**
+   * Index of a path in the file list; falls back to the previous index
+   * clamped to the valid range when the path is gone
+   */
+  private indexOfPath(path: string | undefined, previousIndex: number): number {
+    const index = path === undefined ? -1 : this._fileList.findIndex(f => f.path === path);
+    if (index !== -1) {
+      return index;
     }
+    return Math.max(0, Math.min(previousIndex, this._fileList.length - 1));
   }
 
   /**
@@ -149,6 +334,7 @@ export class DiffReviewModal {
    * Get current file picker index
    */
   get filePickerIndex(): number {
+    this.sync();
     return this._filePickerIndex;
   }
 
@@ -156,6 +342,7 @@ export class DiffReviewModal {
    * Open the file picker
    */
   openFilePicker(): void {
+    this.sync();
     this._filePickerOpen = true;
     this._filePickerIndex = this._selectedIndex;
   }
@@ -171,21 +358,23 @@ export class DiffReviewModal {
    * Navigate to next file in picker
    */
   filePickerNext(): void {
-    if (this._fileList.length === 0) {
+    const files = this.fileList;
+    if (files.length === 0) {
       return;
     }
-    this._filePickerIndex = (this._filePickerIndex + 1) % this._fileList.length;
+    this._filePickerIndex = (this._filePickerIndex + 1) % files.length;
   }
 
   /**
    * Navigate to previous file in picker
    */
   filePickerPrevious(): void {
-    if (this._fileList.length === 0) {
+    const files = this.fileList;
+    if (files.length === 0) {
       return;
     }
     this._filePickerIndex = this._filePickerIndex === 0 
-      ? this._fileList.length - 1 
+      ? files.length - 1 
       : this._filePickerIndex - 1;
   }
 
@@ -193,6 +382,7 @@ export class DiffReviewModal {
    * Confirm file picker selection (jump to selected file and close picker)
    */
   confirmFilePickerSelection(): void {
+    this.sync();
     this._selectedIndex = this._filePickerIndex;
     this._filePickerOpen = false;
   }
@@ -0,0 +1,59 @@
+/**
+ * What a mouse report describes. "drag" is motion with a button held
+ * (reported with tracking mode 1002), "move" motion without (1003).
+ */
+export type MouseAction = "press" | "release" | "drag" | "move" | "scrollUp" | "scrollDown" | "scrollLeft" | "scrollRight";
+
+export type MouseButton = "left" | "middle" | "right" | "none";
+
+/** One decoded mouse report; row and col are 1-based screen positions */
+export interface MouseInput {
+  action: MouseAction;
+  button: MouseButton;
+  row: number;
+  col: number;
+  shift: boolean;
+  alt: boolean;
+  ctrl: boolean;
+}
+
+/** Turns on button and drag reporting in SGR (1006) format; write it to the terminal */
+export const MOUSE_TRACKING_ON = "\x1b[?1002h\x1b[?1006h";
+/** Turns mouse reporting back off */
+export const MOUSE_TRACKING_OFF = "\x1b[?1002l\x1b[?1006l";
+
+const SGR_MOUSE = /\x1b\[<(\d+);(\d+);(\d+)([Mm])/g;
+
+const BUTTONS: MouseButton[] = ["left", "middle", "right", "none"];
+const WHEEL: MouseAction[] = ["scrollUp", "scrollDown", "scrollLeft", "scrollRight"];
+
+/**
+ * Decode SGR mouse reports ("\x1b[<b;x;yM", "m" for a release). Input may
+ * hold several at once, e.g. a fast wheel; returns [] for anything else.
+ */
+export function parseMouseInput(data: string): MouseInput[] {
+  if (!data.startsWith("\x1b[<")) {
+    return [];
+  }
+
+  const events: MouseInput[] = [];
+  for (const [, code, col, row, final] of data.matchAll(SGR_MOUSE)) {
+    const b = Number(code);
+    const modifiers = { shift: (b & 4) !== 0, alt: (b & 8) !== 0, ctrl: (b & 16) !== 0 };
+    const position = { row: Number(row), col: Number(col) };
+
+    if (b & 64) {
+      events.push({ action: WHEEL[b & 3], button: "none", ...position, ...modifiers });
+      continue;
+    }
+
+    const button = BUTTONS[b & 3];
+    const action: MouseAction = final === "m"
+      ? "release"
+      : b & 32
+        ? (button === "none" ? "move" : "drag")
+        : "press";
+    events.push({ action, button, ...position, ...modifiers });
+  }
+  return events;
+}
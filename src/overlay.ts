@@ -1,6 +1,20 @@
 import { DiffReviewModal } from "./modal.js";
-import { DiffViewController } from "./diff-view-controller.js";
-import type { DiffLine } from "./diff-engine.js";
+import { DiffViewController, type DiffLayout, type DiffViewState } from "./diff-view-controller.js";
+import type { GutterMode } from "./inline-view.js";
+import { getHiddenLines, type DiffLine, type DiffOptions, type IgnoreWhitespace, type LineRange } from "./diff-engine.js";
+import { compileSearch, type SearchHit } from "./search.js";
+import { parseMouseInput, type MouseInput } from "./mouse.js";
+import { diffThemeFromRoles, type DiffTheme } from "./diff-theme.js";
+import {
+  formatHelpLine,
+  formatKeymapHelp,
+  KeySequenceMatcher,
+  resolveKeymap,
+  type HelpEntry,
+  type Keymap,
+  type KeySpec,
+  type ResolvedKeymap,
+} from "./keymap.js";
 
 /**
  * Minimal TUI interface needed by the overlay.
@@ -9,6 +23,11 @@ import type { DiffLine } from "./diff-engine.js";
 export interface OverlayTui {
   height?: number;
   requestRender(): void;
+  /**
+   * Screen position (1-based) of the overlay's top-left corner, for
+   * mapping mouse reports to rendered rows. Default: row 1, column 1.
+   */
+  getOrigin?(): { row: number; col: number };
 }
 
 /**
@@ -18,6 +37,8 @@ export interface OverlayTui {
 export interface OverlayTheme {
   fg(role: string, text: string): string;
   bold(text: string): string;
+  /** Background colors; when present, "selectedBg" colors the diff cursor */
+  bg?(role: string, text: string): string;
 }
 
 /**
@@ -50,6 +71,8 @@ export interface OverlayCallbacks {
   onDismiss?(): void;
   /** Called when user yanks text to editor */
   onPasteToEditor?(text: string): void;
+  /** Called with the new file content after changes are reverted (write it to disk) */
+  onRevert?(path: string, newContent: string): void;
 }
 
 /**
@@ -60,6 +83,27 @@ export interface OverlayHandler {
   render(width: number): string[];
   handleInput(data: string): void;
   invalidate(): void;
+  /** Stop live updates; the diff overlay calls this itself when it closes */
+  dispose?(): void;
+}
+
+/**
+ * Where the user was in the overlay: the selected file and the view
+ * position of every visited file. Plain JSON, so it can be stored and
+ * passed back through OverlayOptions.viewState when reopening.
+ */
+export interface OverlayViewState {
+  selectedPath?: string;
+  files: Record<string, DiffViewState>;
+}
+
+/**
+ * The handler returned by createOverlayHandler.
+ */
+export interface DiffOverlayHandler extends OverlayHandler {
+  dispose(): void;
+  /** Current selection and per-file view positions */
+  getViewState(): OverlayViewState;
 }
 
 /**
@@ -68,6 +112,293 @@ export interface OverlayHandler {
 export interface OverlayOptions {
   /** Title shown in the top border. Default: "Diff Review" */
   title?: string;
+  /** Context size and ignore options for computed diffs. "w" cycles ignoreWhitespace at runtime. */
+  diffOptions?: DiffOptions;
+  /** Restore a previous session's position, from DiffOverlayHandler.getViewState() */
+  viewState?: OverlayViewState;
+  /** Diff colors (see DIFF_THEMES). Default: the dark preset adapted to the theme's roles */
+  diffTheme?: DiffTheme;
+  /** "dual" shows separate old | new line-number columns in the inline layout. Default: "single" */
+  gutter?: GutterMode;
+  /** Key bindings per action, replacing those in DEFAULT_OVERLAY_KEYMAP */
+  keymap?: OverlayKeymap;
+}
+
+/** Columns "h" / "l" pan the diff by ("zh" / "zl" pan by one) */
+const HORIZONTAL_SCROLL_COLUMNS = 8;
+
+/** Where "/" searches: the current file, or every file in the list */
+type SearchScope = "file" | "all";
+
+/** What a rendered row shows, for mapping mouse reports to it */
+type RowTarget =
+  | { kind: "diff"; row: number } // Row of the diff viewport
+  | { kind: "file"; index: number } // File picker entry
+  | { kind: "hit"; index: number }; // All-files search result
+
+/** Lines one wheel notch scrolls */
+const WHEEL_SCROLL_LINES = 3;
+
+/** Lines "e" / "E" reveal at a separator */
+const EXPAND_CONTEXT_LINES = 10;
+
+/**
+ * Line numbers a yanked selection refers to: the current (new) file's,
+ * unless the selection is only removed lines, which only have old ones.
+ * Mixing the two would yank a range that spans unrelated lines.
+ */
+function yankLineNumbers(lines: DiffLine[]): number[] {
+  const newNumbers = lines
+    .map(line => line.newLineNumber)
+    .filter((n): n is number => n !== undefined);
+  if (newNumbers.length > 0) {
+    return newNumbers;
+  }
+  return lines
+    .map(line => line.oldLineNumber)
+    .filter((n): n is number => n !== undefined);
+}
+
+/**
+ * Actions that only change the view of the current file, given the count
+ * typed before them (1 if none) and the diff viewport's height
+ */
+const VIEW_COMMANDS: Partial<Record<OverlayAction, (controller: DiffViewController, count: number, height: number) => void>> = {
+  down: (controller, count) => controller.scrollDown(count),
+  up: (controller, count) => controller.scrollUp(count),
+  halfPageDown: (controller, count, height) => controller.scrollDown(count * Math.max(1, Math.floor(height / 2))),
+  halfPageUp: (controller, count, height) => controller.scrollUp(count * Math.max(1, Math.floor(height / 2))),
+  pageDown: (controller, count, height) => controller.scrollDown(count * height),
+  pageUp: (controller, count, height) => controller.scrollUp(count * height),
+  top: controller => controller.scrollToTop(),
+  bottom: controller => controller.scrollToBottom(),
+  panLeft: (controller, count) => controller.scrollLeft(count * HORIZONTAL_SCROLL_COLUMNS),
+  panRight: (controller, count) => controller.scrollRight(count * HORIZONTAL_SCROLL_COLUMNS),
+  panLeftColumn: (controller, count) => controller.scrollLeft(count),
+  panRightColumn: (controller, count) => controller.scrollRight(count),
+  toggleFold: controller => controller.toggleCursorFold(),
+  openFold: controller => controller.setCursorFold(false),
+  closeFold: controller => controller.setCursorFold(true),
+  foldAll: controller => controller.foldAll(),
+  unfoldAll: controller => controller.unfoldAll(),
+};
+
+/** Actions a count repeats ("3n", "10]c"); view commands take the count themselves */
+const REPEATABLE_ACTIONS = new Set<OverlayAction>([
+  "nextMatch",
+  "prevMatch",
+  "nextFile",
+  "prevFile",
+  "nextChange",
+  "prevChange",
+  "expandAbove",
+  "expandBelow",
+  "historyFromBack",
+  "historyFromForward",
+  "historyToBack",
+  "historyToForward",
+  "nextCheckpoint",
+  "prevCheckpoint",
+]);
+
+/** Order "w" steps through ignoreWhitespace modes */
+const IGNORE_WHITESPACE_CYCLE: IgnoreWhitespace[] = ["none", "trailing", "amount", "all"];
+
+/**
+ * Default overlay bindings. Several actions may share a key: the first
+ * that applies wins, so "n" steps through search matches while a search is
+ * active and through files otherwise. up / down / select / cancel also
+ * drive the file picker and search results lists.
+ */
+export const DEFAULT_OVERLAY_KEYMAP = {
+  nextMatch: ["n"],
+  prevMatch: ["N"],
+  nextFile: ["n"],
+  prevFile: ["p"],
+  down: ["<Down>", "j"],
+  up: ["<Up>", "k"],
+  halfPageDown: ["<C-d>"],
+  halfPageUp: ["<C-u>"],
+  pageDown: ["<C-f>", "<PageDown>"],
+  pageUp: ["<C-b>", "<PageUp>"],
+  top: ["gg"],
+  bottom: ["G"],
+  panLeft: ["h"],
+  panRight: ["l"],
+  panLeftColumn: ["zh"],
+  panRightColumn: ["zl"],
+  nextChange: ["]c", "}"],
+  prevChange: ["[c", "{"],
+  toggleFold: ["za"],
+  openFold: ["zo"],
+  closeFold: ["zc"],
+  foldAll: ["zM"],
+  unfoldAll: ["zR"],
+  expandAbove: ["e"],
+  expandBelow: ["E"],
+  expandAll: ["x"],
+  search: ["/"],
+  filePicker: ["<Tab>"],
+  select: ["<Enter>"],
+  toggleLayout: ["s"],
+  toggleWrap: ["W"],
+  cycleWhitespace: ["w"],
+  historyFromBack: ["<"],
+  historyFromForward: [">"],
+  historyToBack: [","],
+  historyToForward: ["."],
+  nextCheckpoint: ["c"],
+  prevCheckpoint: ["C"],
+  visual: ["V"],
+  accept: ["a"],
+  reject: ["r"],
+  dismiss: ["d"],
+  yank: ["y"],
+  exitVisual: ["<C-c>"],
+  cancel: ["<Esc>"],
+  quit: ["q"],
+  help: ["?"],
+} satisfies Record<string, KeySpec[]>;
+
+export type OverlayAction = keyof typeof DEFAULT_OVERLAY_KEYMAP;
+
+export type OverlayKeymap = Keymap<OverlayAction>;
+
+/** What each overlay action does, for help screens */
+export const OVERLAY_ACTION_DESCRIPTIONS: Record<OverlayAction, string> = {
+  nextMatch: "Next search match",
+  prevMatch: "Previous search match",
+  nextFile: "Next file",
+  prevFile: "Previous file",
+  down: "Move down",
+  up: "Move up",
+  halfPageDown: "Scroll down half a page",
+  halfPageUp: "Scroll up half a page",
+  pageDown: "Scroll down a page",
+  pageUp: "Scroll up a page",
+  top: "Go to the first line",
+  bottom: "Go to the last line",
+  panLeft: `Pan left ${HORIZONTAL_SCROLL_COLUMNS} columns`,
+  panRight: `Pan right ${HORIZONTAL_SCROLL_COLUMNS} columns`,
+  panLeftColumn: "Pan left one column",
+  panRightColumn: "Pan right one column",
+  nextChange: "Next change block",
+  prevChange: "Previous change block",
+  toggleFold: "Toggle the hunk's fold",
+  openFold: "Unfold the hunk",
+  closeFold: "Fold the hunk",
+  foldAll: "Fold every hunk",
+  unfoldAll: "Unfold every hunk",
+  expandAbove: "Reveal lines above the separator",
+  expandBelow: "Reveal lines below the separator",
+  expandAll: "Reveal the whole gap at the separator",
+  search: "Search",
+  filePicker: "File list",
+  select: "Open the selected file or search result",
+  toggleLayout: "Toggle inline / side-by-side",
+  toggleWrap: "Toggle soft-wrap",
+  cycleWhitespace: "Cycle ignored whitespace",
+  historyFromBack: "Older old side (history)",
+  historyFromForward: "Newer old side (history)",
+  historyToBack: "Older new side (history)",
+  historyToForward: "Newer new side (history)",
+  nextCheckpoint: "Diff since the next checkpoint",
+  prevCheckpoint: "Diff since the previous checkpoint",
+  visual: "Toggle visual line mode",
+  accept: "Accept the hunk",
+  reject: "Reject the hunk (in visual mode: revert the selection)",
+  dismiss: "Dismiss the file",
+  yank: "Yank the line or selection to the editor",
+  exitVisual: "Leave visual mode",
+  cancel: "Leave visual mode, search or history, or close",
+  quit: "Close",
+  help: "Show this help",
+};
+
+/** The diff view's help line */
+const OVERLAY_HELP: HelpEntry<OverlayAction>[] = [
+  { actions: ["help"], label: "help" },
+  { actions: ["nextFile", "prevFile"], label: "files" },
+  { actions: ["dismiss"], label: "dismiss" },
+  { actions: ["accept", "reject"], label: "accept/reject" },
+  { actions: ["filePicker"], label: "list" },
+  { actions: ["halfPageDown", "halfPageUp"], label: "scroll" },
+  { actions: ["panLeft", "panRight"], label: "pan" },
+  { actions: ["nextChange", "prevChange"], label: "hunks" },
+  { actions: ["toggleFold", "foldAll", "unfoldAll"], label: "fold" },
+  { actions: ["expandAbove", "expandBelow", "expandAll"], label: "expand" },
+  { actions: ["search"], label: "search" },
+  { actions: ["toggleLayout"], label: "split" },
+  { actions: ["toggleWrap"], label: "wrap" },
+  { actions: ["cycleWhitespace"], label: "whitespace" },
+  { actions: ["historyFromBack", "historyFromForward", "historyToBack", "historyToForward"], label: "history", joiner: "" },
+  { actions: ["nextCheckpoint", "prevCheckpoint"], label: "since" },
+  { actions: ["yank"], label: "yank" },
+  { actions: ["visual"], label: "visual" },
+  { actions: ["quit", "cancel"], label: "close" },
+];
+
+/**
+ * The help screen's sections, one per mode. Actions that do something
+ * different in a mode say so there.
+ */
+const HELP_SECTIONS: Array<{
+  title: string;
+  actions: OverlayAction[];
+  descriptions?: Partial<Record<OverlayAction, string>>;
+}> = [
+  {
+    title: "Diff (a count repeats moves and jumps: 5j, 3n, 10]c)",
+    actions: (Object.keys(OVERLAY_ACTION_DESCRIPTIONS) as OverlayAction[]).filter(action => action !== "select"),
+  },
+  {
+    title: "Visual mode",
+    actions: ["down", "up", "yank", "reject", "visual", "cancel"],
+    descriptions: {
+      down: "Extend the selection down",
+      up: "Extend the selection up",
+      yank: "Yank the selection to the editor as a fenced block",
+      reject: "Revert the selected lines",
+      visual: "Leave visual mode",
+      cancel: "Leave visual mode",
+    },
+  },
+  {
+    title: "File picker",
+    actions: ["down", "up", "select", "cancel"],
+    descriptions: {
+      down: "Next file",
+      up: "Previous file",
+      select: "Open the file",
+      cancel: "Back to the diff",
+    },
+  },
+];
+
+/**
+ * Help screen sections: a title and rows (keys and description) for
+ * every bound action
+ */
+function overlayHelpSections(keymap: ResolvedKeymap<OverlayAction>): Array<{ title: string; rows: string[] }> {
+  return HELP_SECTIONS.map(section => ({
+    title: section.title,
+    rows: formatKeymapHelp(keymap, section.actions, { ...OVERLAY_ACTION_DESCRIPTIONS, ...section.descriptions }),
+  }));
+}
+
+/**
+ * The overlay's help screen as plain text: a titled block per mode
+ * (diff, visual, file picker) listing every bound action with its keys
+ */
+export function formatOverlayHelp(keymap?: OverlayKeymap): string[] {
+  const lines: string[] = [];
+  for (const section of overlayHelpSections(resolveKeymap<OverlayAction>(DEFAULT_OVERLAY_KEYMAP, keymap))) {
+    if (lines.length > 0) {
+      lines.push("");
+    }
+    lines.push(section.title, ...section.rows.map(row => `  ${row}`));
+  }
+  return lines;
 }
 
 /**
@@ -93,23 +424,646 @@ export function createOverlayHandler(
   done: () => void,
   callbacks?: OverlayCallbacks,
   options?: OverlayOptions,
-): OverlayHandler {
+): DiffOverlayHandler {
   const { matchesKey, Key, truncateToWidth } = keyUtils;
   let viewController: DiffViewController | null = null;
+  // File the current viewController was built for
+  let viewPath: string | undefined;
+  const keymap = resolveKeymap<OverlayAction>(DEFAULT_OVERLAY_KEYMAP, options?.keymap);
+  // Collects multi-key sequences ("]c", "za"...) before they resolve to actions
+  const keys = new KeySequenceMatcher(keymap, keyUtils);
+  // Count typed before a command ("5" of "5j"), as digits
+  let countPrefix = "";
+  // Target of each row of the last render (by output row), for the mouse
+  let layout: Array<RowTarget | undefined> = [];
+  // First help screen line shown while "?" help is open (null when closed)
+  let helpScroll: number | null = null;
+  // Search text being typed after "/" (null when the prompt is closed)
+  let searchPrompt: string | null = null;
+  let searchScope: SearchScope = "file";
+  // Submitted search; n/N step through its matches while it is active
+  let search: { pattern: string; regex: RegExp; scope: SearchScope } | null = null;
+  // All-files hits, the one n/N last moved to, and whether their list is shown
+  let searchHits: SearchHit[] = [];
+  let hitIndex = 0;
+  let hitListOpen = false;
+  // Context lines revealed at separators (old line ranges), per revealKey()
+  const revealed = new Map<string, LineRange[]>();
+  // View position per path, restored when returning to a file
+  const viewStates = new Map<string, DiffViewState>(Object.entries(options?.viewState?.files ?? {}));
+  // Layout chosen with "s" sticks across files; undefined = pick by width
+  let layoutOverride: DiffLayout | undefined;
+  // Soft-wrap toggled with "W", also sticky across files
+  let wrap = false;
+  // History versions being compared instead of baseline → current.
+  // Tied to a path so switching files falls back to the baseline diff.
+  let historyRange: { path: string; from: number; to: number } | null = null;
+
+  function activeHistoryRange() {
+    return historyRange && historyRange.path === modal.getSelectedPath() ? historyRange : null;
+  }
+
+  /**
+   * Move one side of the history comparison, entering history view
+   * (first version → latest) if it isn't active yet
+   */
+  function stepHistory(side: "from" | "to", delta: number) {
+    const path = modal.getSelectedPath();
+    const last = modal.getSelectedHistory().length - 1;
+    if (!path || last < 1) {
+      return;
+    }
+
+    const range = activeHistoryRange() ?? { path, from: 0, to: last };
+    if (side === "from") {
+      range.from = Math.max(0, Math.min(range.from + delta, range.to - 1));
+    } else {
+      range.to = Math.max(range.from + 1, Math.min(range.to + delta, last));
+    }
+    historyRange = range;
+    refreshViewController();
+    tui.requestRender();
+  }
 
   const title = options?.title ?? "Diff Review";
+  const diffTheme = options?.diffTheme ?? diffThemeFromRoles(theme);
 
+  if (options?.diffOptions) {
+    modal.setDiffOptions(options.diffOptions);
+  }
+
+  const restoredIndex = modal.getFileList().findIndex(f => f.path === options?.viewState?.selectedPath);
+  if (restoredIndex !== -1) {
+    modal.selectIndex(restoredIndex);
+  }
+
+  function saveViewState() {
+    if (viewController && viewPath !== undefined) {
+      viewStates.set(viewPath, viewController.getViewState());
+    }
+  }
+
+  /**
+   * Key revealed ranges are kept under: the path plus what its old side
+   * is compared in (the checkpoint and whitespace mode), since ranges of
+   * one base mean other lines in another
+   */
+  function revealKey(path: string): string {
+    return JSON.stringify([path, modal.since ?? null, modal.diffOptions.ignoreWhitespace ?? "none"]);
+  }
+
+  function selectedDiff() {
+    const range = activeHistoryRange();
+    const path = modal.getSelectedPath();
+    return range
+      ? modal.getSelectedVersionDiff(range.from, range.to)
+      : modal.getSelectedDiff(path === undefined ? undefined : revealed.get(revealKey(path)));
+  }
+
+  /**
+   * Build a view for the selected file, restoring where we left it
+   */
   function buildViewController() {
-    const diff = modal.getSelectedDiff();
+    saveViewState();
+    const diff = selectedDiff();
+    viewPath = modal.getSelectedPath();
     if (diff) {
-      viewController = new DiffViewController(diff, highlightProvider);
+      viewController = new DiffViewController(diff, highlightProvider, diffTheme);
+      viewController.setLayout(layoutOverride);
+      viewController.setWrap(wrap);
+      viewController.setGutterMode(options?.gutter ?? "single");
+      viewController.setSearch(search?.regex);
+      const saved = viewPath === undefined ? undefined : viewStates.get(viewPath);
+      if (saved) {
+        viewController.setViewState(saved);
+      }
     } else {
       viewController = null;
     }
   }
 
+  /**
+   * Re-diff after a state change: the same file keeps its cursor and
+   * scroll position, another file gets a fresh view
+   */
+  function refreshViewController() {
+    const diff = selectedDiff();
+    if (viewController && diff && modal.getSelectedPath() === viewPath) {
+      viewController.updateDiff(diff);
+    } else {
+      buildViewController();
+    }
+  }
+
+  /**
+   * Jump to the next/previous change block, moving on to the first/last
+   * block of the next/previous file (wrapping like n/p) at the ends
+   */
+  function jumpToChange(direction: 1 | -1) {
+    if (!viewController) {
+      return;
+    }
+
+    if (!viewController.jumpToChangeBlock(direction) && modal.getFileList().length > 1) {
+      if (direction === 1) {
+        modal.selectNext();
+      } else {
+        modal.selectPrevious();
+      }
+      buildViewController();
+      const starts = viewController?.getChangeBlockStarts() ?? [];
+      if (starts.length > 0) {
+        viewController?.setCursor(direction === 1 ? starts[0] : starts[starts.length - 1]);
+      }
+    }
+    tui.requestRender();
+  }
+
+  /**
+   * Select a hit's file and put the cursor on its line
+   */
+  function showHit(index: number) {
+    const hit = searchHits[index];
+    const fileIndex = modal.getFileList().findIndex(f => f.path === hit?.path);
+    if (!hit || fileIndex === -1) {
+      return;
+    }
+
+    hitIndex = index;
+    if (fileIndex !== modal.selectedIndex) {
+      modal.selectIndex(fileIndex);
+      buildViewController();
+    }
+    // Hits are in the file's changes, not a history comparison
+    if (activeHistoryRange()) {
+      historyRange = null;
+      refreshViewController();
+    }
+
+    // Find the hit's line by its line numbers, since the view's diff may
+    // have revealed context the searched one didn't
+    const lineIndex = selectedDiff()?.hunks.findIndex(line =>
+      line.type === hit.line.type
+      && line.oldLineNumber === hit.line.oldLineNumber
+      && line.newLineNumber === hit.line.newLineNumber
+    ) ?? -1;
+    const line = lineIndex === -1 ? -1 : viewController?.getLineForDiffLineIndex(lineIndex) ?? -1;
+    if (line !== -1) {
+      viewController?.setCursor(line);
+    }
+  }
+
+  /**
+   * Move to the next/previous match, wrapping around: within the file,
+   * or through the all-files hits
+   */
+  function stepSearch(direction: 1 | -1) {
+    if (search?.scope === "all") {
+      if (searchHits.length > 0) {
+        showHit((hitIndex + direction + searchHits.length) % searchHits.length);
+      }
+    } else if (viewController && !viewController.jumpToSearchMatch(direction)) {
+      const lines = viewController.getSearchMatchLines();
+      if (lines.length > 0) {
+        viewController.setCursor(direction === 1 ? lines[0] : lines[lines.length - 1]);
+      }
+    }
+    tui.requestRender();
+  }
+
+  function submitSearch(pattern: string) {
+    const regex = compileSearch(pattern);
+    search = regex ? { pattern, regex, scope: searchScope } : null;
+    searchHits = [];
+    hitIndex = 0;
+    viewController?.setSearch(regex);
+
+    if (!search) {
+      tui.requestRender();
+      return;
+    }
+    if (search.scope === "all") {
+      searchHits = modal.searchFiles(search.regex);
+      hitListOpen = searchHits.length > 0;
+      tui.requestRender();
+      return;
+    }
+    stepSearch(1);
+  }
+
+  function clearSearch() {
+    search = null;
+    searchHits = [];
+    hitListOpen = false;
+    viewController?.setSearch(undefined);
+  }
+
+  /**
+   * Reveal hidden lines at the separator under the cursor: the top or
+   * bottom EXPAND_CONTEXT_LINES of the gap, or all of it
+   */
+  function expandContext(part: "top" | "bottom" | "all") {
+    const path = modal.getSelectedPath();
+    const diff = selectedDiff();
+    if (!viewController || !path || !diff || activeHistoryRange()
+      || !viewController.isSeparatorLine(viewController.cursorLine)) {
+      return;
+    }
+
+    const hidden = getHiddenLines(diff, viewController.getCursorHunkIndex());
+    if (!hidden) {
+      return;
+    }
+    const range = part === "top"
+      ? { start: hidden.start, end: Math.min(hidden.end, hidden.start + EXPAND_CONTEXT_LINES - 1) }
+      : part === "bottom"
+        ? { start: Math.max(hidden.start, hidden.end - EXPAND_CONTEXT_LINES + 1), end: hidden.end }
+        : hidden;
+    const key = revealKey(path);
+    revealed.set(key, [...(revealed.get(key) ?? []), range]);
+    refreshViewController();
+    tui.requestRender();
+  }
+
   buildViewController();
 
+  // Follow DiffState changes (e.g. the agent still editing) while open
+  const unsubscribe = modal.onChange(() => {
+    refreshViewController();
+    tui.requestRender();
+  });
+
+  function close() {
+    unsubscribe();
+    done();
+  }
+
+  /**
+   * Rows the overlay gives the diff, which half-page and page moves follow
+   */
+  function diffViewportHeight(): number {
+    const targetHeight = Math.max(20, Math.floor((tui.height ?? 40) * 0.75));
+    return Math.max(5, targetHeight - 8);
+  }
+
+  /**
+   * Yank the cursor line's location, or the visual selection as a fenced
+   * block, to the editor and close
+   */
+  function yank() {
+    if (!viewController) {
+      return;
+    }
+
+    if (viewController.isVisualMode) {
+      const diffLines = viewController.getSelectedDiffLines();
+      if (diffLines.length > 0) {
+        const filePath = modal.getSelectedPath() || "";
+        const lineNumbers = yankLineNumbers(diffLines);
+
+        if (lineNumbers.length > 0) {
+          const minLine = Math.min(...lineNumbers);
+          const maxLine = Math.max(...lineNumbers);
+          const rangeStr = minLine === maxLine ? `${minLine}` : `${minLine}-${maxLine}`;
+          const header = `\`${filePath}:${rangeStr}\``;
+          const codeLines = diffLines.map((dl: DiffLine) => dl.content);
+          const fencedBlock = `${header}\n\`\`\`\n${codeLines.join('\n')}\n\`\`\``;
+          callbacks?.onPasteToEditor?.(fencedBlock);
+          viewController.exitVisualMode();
+          close();
+        }
+      }
+    } else {
+      const diffLine = viewController.getCursorDiffLine();
+      if (diffLine) {
+        const filePath = modal.getSelectedPath() || "";
+        const lineNum = diffLine.newLineNumber ?? diffLine.oldLineNumber;
+        if (lineNum !== undefined) {
+          callbacks?.onPasteToEditor?.(`${filePath}:${lineNum}`);
+          close();
+        }
+      }
+    }
+  }
+
+  /**
+   * Accept or reject the hunk under the cursor; in visual mode "reject"
+   * reverts just the selected lines
+   */
+  function resolveChange(action: "accept" | "reject") {
+    // Accept/reject act on the baseline diff, not on a history or checkpoint comparison
+    const path = modal.getSelectedPath();
+    if (!viewController || !path || activeHistoryRange() || modal.since !== undefined) {
+      return;
+    }
+
+    if (action === "reject" && viewController.isVisualMode) {
+      const selected = viewController.getSelectedDiffLines();
+      if (!selected.some((dl: DiffLine) => dl.type !== "context")) {
+        return;
+      }
+
+      // The change event refreshes the view, keeping the cursor in place
+      const newContent = modal.revertLines(selected);
+      if (newContent !== undefined) {
+        callbacks?.onRevert?.(path, newContent);
+      }
+      viewController?.exitVisualMode();
+    } else {
+      const hunkIndex = viewController.getCursorHunkIndex();
+      if (hunkIndex === -1) {
+        return;
+      }
+
+      // The change event refreshes the view, staying near the same spot
+      if (action === "accept") {
+        modal.acceptHunk(hunkIndex);
+      } else {
+        const newContent = modal.rejectHunk(hunkIndex);
+        if (newContent !== undefined) {
+          callbacks?.onRevert?.(path, newContent);
+        }
+      }
+    }
+
+    tui.requestRender();
+    if (modal.getFileList().length === 0) {
+      close();
+    }
+  }
+
+  /**
+   * Mouse: the wheel scrolls (or moves through lists), a click on a diff
+   * line moves the cursor there and shift-click or drag selects lines in
+   * visual mode; a click on a file or search result opens it
+   */
+  function handleMouse(event: MouseInput) {
+    const origin = tui.getOrigin?.() ?? { row: 1, col: 1 };
+    const target = layout[event.row - origin.row];
+    const wheel = event.action === "scrollUp" ? -1 : event.action === "scrollDown" ? 1 : 0;
+    const click = event.action === "press" && event.button === "left";
+
+    if (searchPrompt !== null) {
+      return;
+    }
+
+    if (helpScroll !== null) {
+      if (wheel !== 0) {
+        helpScroll = Math.max(0, helpScroll + wheel * WHEEL_SCROLL_LINES);
+      } else if (click) {
+        helpScroll = null;
+      } else {
+        return;
+      }
+    } else if (hitListOpen) {
+      if (wheel !== 0) {
+        hitIndex = Math.max(0, Math.min(searchHits.length - 1, hitIndex + wheel));
+      } else if (click && target?.kind === "hit") {
+        hitListOpen = false;
+        showHit(target.index);
+      } else {
+        return;
+      }
+    } else if (modal.isFilePickerOpen) {
+      if (wheel !== 0) {
+        if (wheel === 1) {
+          modal.filePickerNext();
+        } else {
+          modal.filePickerPrevious();
+        }
+      } else if (click && target?.kind === "file") {
+        modal.closeFilePicker();
+        modal.selectIndex(target.index);
+        buildViewController();
+      } else {
+        return;
+      }
+    } else if (viewController) {
+      if (!handleDiffMouse(viewController, event, target)) {
+        return;
+      }
+    } else {
+      return;
+    }
+    tui.requestRender();
+  }
+
+  /**
+   * Mouse in the diff view. Returns false if the event did nothing.
+   */
+  function handleDiffMouse(controller: DiffViewController, event: MouseInput, target: RowTarget | undefined): boolean {
+    switch (event.action) {
+      case "scrollUp":
+        controller.scrollUp(WHEEL_SCROLL_LINES);
+        return true;
+      case "scrollDown":
+        controller.scrollDown(WHEEL_SCROLL_LINES);
+        return true;
+      case "scrollLeft":
+        controller.scrollLeft(HORIZONTAL_SCROLL_COLUMNS);
+        return true;
+      case "scrollRight":
+        controller.scrollRight(HORIZONTAL_SCROLL_COLUMNS);
+        return true;
+    }
+
+    const line = target?.kind === "diff" ? controller.getLineAtRow(target.row) : -1;
+    if (line === -1 || event.button !== "left") {
+      return false;
+    }
+
+    if (event.action === "press") {
+      // Shift-click extends a selection from the cursor; a plain click ends it
+      if (event.shift && !controller.isVisualMode) {
+        controller.enterVisualMode();
+      } else if (!event.shift && controller.isVisualMode) {
+        controller.exitVisualMode();
+      }
+      controller.setCursor(line);
+      return true;
+    }
+    if (event.action === "drag" && line !== controller.cursorLine) {
+      // Dragging selects from where the button went down
+      if (!controller.isVisualMode) {
+        controller.enterVisualMode();
+      }
+      controller.setCursor(line);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Run a diff view action (view commands move `count` times as far).
+   * Returns false if it doesn't apply right now (e.g. "nextMatch" without
+   * a search), letting another action bound to the same key handle it.
+   */
+  function runAction(action: OverlayAction, count = 1): boolean {
+    const viewCommand = VIEW_COMMANDS[action];
+    if (viewCommand) {
+      if (viewController) {
+        viewCommand(viewController, count, diffViewportHeight());
+      }
+      tui.requestRender();
+      return true;
+    }
+
+    switch (action) {
+      case "exitVisual":
+        if (viewController?.isVisualMode) {
+          viewController.exitVisualMode();
+          tui.requestRender();
+        }
+        return true;
+
+      // Escape backs out of visual mode, then search, then history, then closes
+      case "cancel":
+        if (viewController?.isVisualMode) {
+          viewController.exitVisualMode();
+        } else if (search) {
+          clearSearch();
+        } else if (activeHistoryRange()) {
+          historyRange = null;
+          refreshViewController();
+        } else {
+          close();
+          return true;
+        }
+        tui.requestRender();
+        return true;
+
+      case "quit":
+        close();
+        return true;
+
+      case "search":
+        searchPrompt = "";
+        tui.requestRender();
+        return true;
+
+      // With an active search these step through matches instead of files
+      case "nextMatch":
+      case "prevMatch":
+        if (!search) {
+          return false;
+        }
+        stepSearch(action === "nextMatch" ? 1 : -1);
+        return true;
+
+      case "nextFile":
+      case "prevFile":
+        if (action === "nextFile") {
+          modal.selectNext();
+        } else {
+          modal.selectPrevious();
+        }
+        buildViewController();
+        tui.requestRender();
+        return true;
+
+      case "nextChange":
+      case "prevChange":
+        jumpToChange(action === "nextChange" ? 1 : -1);
+        return true;
+
+      case "filePicker":
+        modal.openFilePicker();
+        tui.requestRender();
+        return true;
+
+      case "toggleWrap":
+        wrap = !wrap;
+        viewController?.setWrap(wrap);
+        tui.requestRender();
+        return true;
+
+      case "toggleLayout":
+        if (viewController) {
+          viewController.toggleLayout();
+          layoutOverride = viewController.layout;
+          tui.requestRender();
+        }
+        return true;
+
+      // History: the old side and the new side step separately
+      case "historyFromBack":
+      case "historyFromForward":
+        stepHistory("from", action === "historyFromBack" ? -1 : 1);
+        return true;
+      case "historyToBack":
+      case "historyToForward":
+        stepHistory("to", action === "historyToBack" ? -1 : 1);
+        return true;
+
+      // Next steps baseline → newest checkpoint → older ones → baseline; previous goes back
+      case "nextCheckpoint":
+      case "prevCheckpoint": {
+        const choices: Array<string | undefined> = [undefined, ...modal.getCheckpoints().reverse()];
+        if (choices.length > 1) {
+          const step = action === "nextCheckpoint" ? 1 : -1;
+          const next = (choices.indexOf(modal.since) + step + choices.length) % choices.length;
+          modal.setSince(choices[next]);
+          refreshViewController();
+          tui.requestRender();
+        }
+        return true;
+      }
+
+      case "cycleWhitespace": {
+        const current = modal.diffOptions.ignoreWhitespace ?? "none";
+        const next = IGNORE_WHITESPACE_CYCLE[
+          (IGNORE_WHITESPACE_CYCLE.indexOf(current) + 1) % IGNORE_WHITESPACE_CYCLE.length
+        ];
+        modal.setDiffOptions({ ...modal.diffOptions, ignoreWhitespace: next });
+        refreshViewController();
+        tui.requestRender();
+        return true;
+      }
+
+      case "expandAbove":
+        expandContext("top");
+        return true;
+      case "expandBelow":
+        expandContext("bottom");
+        return true;
+      case "expandAll":
+        expandContext("all");
+        return true;
+
+      case "visual":
+        if (viewController) {
+          if (viewController.isVisualMode) {
+            viewController.exitVisualMode();
+          } else {
+            viewController.enterVisualMode();
+          }
+          tui.requestRender();
+        }
+        return true;
+
+      case "accept":
+      case "reject":
+        resolveChange(action);
+        return true;
+
+      case "dismiss":
+        modal.dismissSelected();
+        callbacks?.onDismiss?.();
+        tui.requestRender();
+        if (modal.getFileList().length === 0) {
+          close();
+        }
+        return true;
+
+      case "yank":
+        yank();
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
   return {
     render(width: number): string[] {
       const termHeight = tui.height ?? 40;
@@ -117,6 +1071,8 @@ export function createOverlayHandler(
       const innerWidth = width - 4; // 2 for border chars + 2 for padding
       const fileList = modal.getFileList();
       const content: string[] = [];
+      // Clickable content rows, by index into content
+      const targets = new Map<number, RowTarget>();
 
       const border = theme.fg("border", "│");
       const stripAnsi = (s: string) => s.replace(/\x1b\[[0-9;]*m/g, "");
@@ -129,10 +1085,35 @@ export function createOverlayHandler(
       const emptyLine = () => `${border}${" ".repeat(width - 2)}${border}`;
 
       // Build content lines (without borders)
-      if (fileList.length === 0) {
-        content.push(theme.fg("muted", "No files to review"));
+      if (helpScroll !== null) {
+        // Help screen, over whatever mode is open
+        content.push(theme.fg("accent", theme.bold("Keys")));
+        content.push(theme.fg("border", "─".repeat(innerWidth)));
+
+        const helpLines: string[] = [];
+        for (const section of overlayHelpSections(keymap)) {
+          if (helpLines.length > 0) {
+            helpLines.push("");
+          }
+          helpLines.push(theme.fg("accent", section.title), ...section.rows.map(row => `  ${row}`));
+        }
+
+        const availableHeight = Math.max(5, targetHeight - 6);
+        helpScroll = Math.max(0, Math.min(helpScroll, helpLines.length - availableHeight));
+        content.push(...helpLines.slice(helpScroll, helpScroll + availableHeight));
+        if (helpLines.length > availableHeight) {
+          const pct = Math.round(((helpScroll + availableHeight) / helpLines.length) * 100);
+          content.push(theme.fg("dim", `── ${Math.min(pct, 100)}% ──`));
+        }
+      } else if (fileList.length === 0) {
+        content.push(theme.fg("muted", modal.since !== undefined ? `No changes since ${modal.since}` : "No files to review"));
         content.push("");
-        content.push(theme.fg("dim", "Press Escape to close"));
+        content.push(theme.fg("dim", modal.since !== undefined
+          ? formatHelpLine(keymap, [
+            { actions: ["nextCheckpoint", "prevCheckpoint"], label: "change checkpoint" },
+            { actions: ["cancel"], label: "close" },
+          ])
+          : "Press Escape to close"));
       } else if (modal.isFilePickerOpen) {
         // File picker mode
         content.push(theme.fg("accent", theme.bold("File Picker")));
@@ -147,11 +1128,42 @@ export function createOverlayHandler(
             : theme.fg("text", file.path);
           const stats = theme.fg("muted", ` +${file.additions}/-${file.deletions}`);
           const tag = file.isNewFile ? theme.fg("success", " [new]") : "";
+          targets.set(content.length, { kind: "file", index: i });
           content.push(`${prefix}${name}${stats}${tag}`);
         }
 
         content.push("");
-        content.push(theme.fg("dim", "↑↓ navigate  Enter select  Esc cancel"));
+        content.push(theme.fg("dim", formatHelpLine(keymap, [
+          { actions: ["up", "down"], label: "navigate", joiner: "" },
+          { actions: ["select"], label: "select" },
+          { actions: ["cancel"], label: "cancel" },
+        ])));
+      } else if (hitListOpen && search) {
+        // All-files search results
+        const files = new Set(searchHits.map(hit => hit.path)).size;
+        content.push(theme.fg("accent", theme.bold(`Search /${search.pattern}`)) +
+          theme.fg("muted", `  ${searchHits.length} hits in ${files} files`));
+        content.push("");
+
+        // Keep the selected hit inside the window
+        const listHeight = Math.max(1, targetHeight - 7);
+        const first = Math.max(0, Math.min(hitIndex - Math.floor(listHeight / 2), searchHits.length - listHeight));
+        for (let i = first; i < Math.min(first + listHeight, searchHits.length); i++) {
+          const hit = searchHits[i];
+          const selected = i === hitIndex;
+          const prefix = selected ? "▸ " : "  ";
+          const lineNumber = hit.line.newLineNumber ?? hit.line.oldLineNumber;
+          const location = `${hit.path}:${lineNumber}`;
+          targets.set(content.length, { kind: "hit", index: i });
+          content.push(`${prefix}${theme.fg(selected ? "accent" : "text", location)}  ${theme.fg("muted", hit.line.content.trim())}`);
+        }
+
+        content.push("");
+        content.push(theme.fg("dim", formatHelpLine(keymap, [
+          { actions: ["up", "down"], label: "navigate", joiner: "" },
+          { actions: ["select"], label: "jump" },
+          { actions: ["cancel"], label: "back" },
+        ])));
       } else {
         // Full-screen diff view
         const currentFile = fileList[modal.selectedIndex];
@@ -162,9 +1174,32 @@ export function createOverlayHandler(
         const fileNumStr = `[${fileIndex}/${totalFiles}]`;
         const filePathStr = theme.fg("accent", currentFile.path);
         const statsStr = theme.fg("muted", ` +${currentFile.additions}/-${currentFile.deletions}`);
-        const rightIndicator = viewController && viewController.isVisualMode
-          ? "VISUAL LINE"
-          : "";
+        const ignoreWhitespace = modal.diffOptions.ignoreWhitespace ?? "none";
+        const range = activeHistoryRange();
+        const toLabel = range ? modal.getSelectedHistory()[range.to]?.label : undefined;
+        const hunkIndex = viewController?.getCursorHunkIndex() ?? -1;
+        let searchIndicator = "";
+        if (search?.scope === "all") {
+          searchIndicator = searchHits.length > 0
+            ? `/${search.pattern} ${hitIndex + 1}/${searchHits.length}`
+            : `/${search.pattern} no matches`;
+        } else if (search && viewController) {
+          const matchLines = viewController.getSearchMatchLines();
+          const cursor = viewController.cursorLine;
+          searchIndicator = matchLines.length > 0
+            ? `/${search.pattern} ${matchLines.filter(line => line <= cursor).length}/${matchLines.length}`
+            : `/${search.pattern} no matches`;
+        }
+        const rightIndicator = [
+          `${countPrefix}${keys.pendingKeys}`,
+          searchIndicator,
+          viewController && viewController.columnOffset > 0 ? `col ${viewController.columnOffset + 1}` : "",
+          hunkIndex !== -1 ? `hunk ${hunkIndex + 1}/${viewController!.hunkCount}` : "",
+          modal.since !== undefined ? `since ${modal.since}` : "",
+          range ? `history v${range.from}→v${range.to}${toLabel ? ` (${toLabel})` : ""}` : "",
+          ignoreWhitespace !== "none" ? `ignore ws: ${ignoreWhitespace}` : "",
+          viewController && viewController.isVisualMode ? "VISUAL LINE" : "",
+        ].filter(Boolean).join("  ");
 
         const leftSide = `${fileNumStr} ${filePathStr}${statsStr}`;
         const leftSideStripped = `${fileNumStr} ${currentFile.path} +${currentFile.additions}/-${currentFile.deletions}`;
@@ -174,15 +1209,16 @@ export function createOverlayHandler(
 
         // Diff content
         if (viewController) {
-          const availableHeight = Math.max(5, targetHeight - 8);
+          const availableHeight = diffViewportHeight();
           const diffLines = viewController.render(innerWidth, availableHeight);
+          diffLines.forEach((_, row) => targets.set(content.length + row, { kind: "diff", row }));
           content.push(...diffLines);
 
-          // Scroll indicator
-          if (viewController.totalLines > availableHeight) {
+          // Scroll indicator (in display rows, which differ from lines when wrapping)
+          if (viewController.totalRows > availableHeight) {
             const pct = Math.round(
               ((viewController.scrollOffset + availableHeight) /
-                viewController.totalLines) * 100
+                viewController.totalRows) * 100
             );
             content.push(theme.fg("dim", `── ${Math.min(pct, 100)}% ──`));
           }
@@ -199,7 +1235,9 @@ export function createOverlayHandler(
       output.push(theme.fg("border", topBorderLeft) + theme.fg("accent", theme.bold(titleText)) + theme.fg("border", topBorderRight));
 
       // Content lines with side borders
-      for (const line of content) {
+      layout = [undefined];
+      for (const [i, line] of content.entries()) {
+        layout.push(targets.get(i));
         output.push(padLine(line));
       }
 
@@ -208,9 +1246,16 @@ export function createOverlayHandler(
         output.push(emptyLine());
       }
 
-      // Help line (overwrite last empty line)
-      if (fileList.length > 0 && !modal.isFilePickerOpen) {
-        const helpText = theme.fg("dim", "n/p files  d dismiss  Tab list  Ctrl+D/U scroll  y yank  V visual  q/Esc close");
+      // Help line (overwrite last empty line); the search prompt takes its place
+      if (helpScroll !== null) {
+        const scrollHint = formatHelpLine(keymap, [{ actions: ["up", "down"], label: "scroll", joiner: "" }]);
+        output[output.length - 1] = padLine(theme.fg("dim", `${scrollHint}${scrollHint ? "  " : ""}any other key closes`));
+      } else if (searchPrompt !== null) {
+        const scope = searchScope === "all" ? theme.fg("muted", " (all files)") : "";
+        const hint = theme.fg("dim", "  Tab scope  Enter search  Esc cancel");
+        output[output.length - 1] = padLine(`/${searchPrompt}█${scope}${hint}`);
+      } else if (fileList.length > 0 && !modal.isFilePickerOpen) {
+        const helpText = theme.fg("dim", formatHelpLine(keymap, OVERLAY_HELP));
         output[output.length - 1] = padLine(helpText);
       }
 
@@ -221,163 +1266,132 @@ export function createOverlayHandler(
     },
 
     handleInput(data: string) {
-      // File picker mode
-      if (modal.isFilePickerOpen) {
-        if (matchesKey(data, Key.escape)) {
-          modal.closeFilePicker();
-          tui.requestRender();
-          return;
-        }
-
-        if (matchesKey(data, Key.up) || data === "k") {
-          modal.filePickerPrevious();
-          tui.requestRender();
-          return;
-        }
-
-        if (matchesKey(data, Key.down) || data === "j") {
-          modal.filePickerNext();
-          tui.requestRender();
-          return;
-        }
-
-        if (matchesKey(data, Key.enter)) {
-          modal.confirmFilePickerSelection();
-          buildViewController();
-          tui.requestRender();
-          return;
-        }
-
-        return;
-      }
-
-      // Normal diff view mode
-      // Ctrl+C or Escape exits visual mode; Escape closes overlay if not in visual mode
-      if (matchesKey(data, Key.ctrl("c"))) {
-        if (viewController?.isVisualMode) {
-          viewController.exitVisualMode();
-          tui.requestRender();
-        }
+      const mouseEvents = parseMouseInput(data);
+      if (mouseEvents.length > 0) {
+        mouseEvents.forEach(handleMouse);
         return;
       }
 
-      if (matchesKey(data, Key.escape)) {
-        if (viewController?.isVisualMode) {
-          viewController.exitVisualMode();
-          tui.requestRender();
-          return;
+      // Search prompt: typing goes into the pattern
+      if (searchPrompt !== null) {
+        if (matchesKey(data, Key.escape)) {
+          searchPrompt = null;
+        } else if (matchesKey(data, Key.enter)) {
+          const pattern = searchPrompt;
+          searchPrompt = null;
+          submitSearch(pattern);
+        } else if (matchesKey(data, Key.tab)) {
+          searchScope = searchScope === "file" ? "all" : "file";
+        } else if (data === "\x7f" || data === "\b") {
+          searchPrompt = searchPrompt.slice(0, -1);
+        } else if (/^[^\x00-\x1f\x7f]+$/.test(data)) {
+          searchPrompt += data;
         }
-        done();
-        return;
-      }
-
-      if (data === "q") {
-        done();
-        return;
-      }
-
-      if (data === "n") {
-        modal.selectNext();
-        buildViewController();
-        tui.requestRender();
-        return;
-      }
-      if (data === "p") {
-        modal.selectPrevious();
-        buildViewController();
         tui.requestRender();
         return;
       }
 
-      if (matchesKey(data, Key.up) || data === "k") {
-        viewController?.scrollUp(1);
-        tui.requestRender();
+      const actions = keys.feed(data);
+      if (!actions) {
+        tui.requestRender(); // The header shows the keys so far
         return;
       }
-      if (matchesKey(data, Key.down) || data === "j") {
-        viewController?.scrollDown(1);
+
+      // Digits typed before a command in the diff view are its count ("5j");
+      // a count's first digit can't be 0
+      const inDiffView = helpScroll === null && !hitListOpen && !modal.isFilePickerOpen;
+      if (inDiffView && actions.length === 0 && /^[0-9]$/.test(data) && (countPrefix !== "" || data !== "0")) {
+        countPrefix += data;
         tui.requestRender();
         return;
       }
+      const count = Math.max(1, Number(countPrefix));
+      const hadCount = countPrefix !== "";
+      countPrefix = "";
 
-      if (matchesKey(data, Key.ctrl("u"))) {
-        viewController?.scrollUp(10);
+      // Help screen: scroll keys scroll it, anything else closes it
+      if (helpScroll !== null) {
+        const page = diffViewportHeight();
+        const step = actions.includes("down") ? 1
+          : actions.includes("up") ? -1
+            : actions.includes("halfPageDown") ? Math.floor(page / 2)
+              : actions.includes("halfPageUp") ? -Math.floor(page / 2)
+                : actions.includes("pageDown") ? page
+                  : actions.includes("pageUp") ? -page
+                    : 0;
+        helpScroll = step === 0 ? null : Math.max(0, helpScroll + step);
         tui.requestRender();
         return;
       }
-      if (matchesKey(data, Key.ctrl("d"))) {
-        viewController?.scrollDown(10);
+      if (actions.includes("help")) {
+        helpScroll = 0;
         tui.requestRender();
         return;
       }
 
-      if (matchesKey(data, Key.tab)) {
-        modal.openFilePicker();
+      // All-files search results
+      if (hitListOpen) {
+        if (actions.includes("cancel")) {
+          hitListOpen = false;
+        } else if (actions.includes("up")) {
+          hitIndex = Math.max(0, hitIndex - 1);
+        } else if (actions.includes("down")) {
+          hitIndex = Math.min(searchHits.length - 1, hitIndex + 1);
+        } else if (actions.includes("select")) {
+          hitListOpen = false;
+          showHit(hitIndex);
+        }
         tui.requestRender();
         return;
       }
 
-      if (data === "V") {
-        if (viewController) {
-          if (viewController.isVisualMode) {
-            viewController.exitVisualMode();
-          } else {
-            viewController.enterVisualMode();
-          }
-          tui.requestRender();
+      // File picker mode
+      if (modal.isFilePickerOpen) {
+        if (actions.includes("cancel")) {
+          modal.closeFilePicker();
+        } else if (actions.includes("up")) {
+          modal.filePickerPrevious();
+        } else if (actions.includes("down")) {
+          modal.filePickerNext();
+        } else if (actions.includes("select")) {
+          modal.confirmFilePickerSelection();
+          buildViewController();
+        } else {
+          return;
         }
+        tui.requestRender();
         return;
       }
 
-      if (data === "d") {
-        modal.dismissSelected();
-        callbacks?.onDismiss?.();
-        buildViewController();
+      // Escape after a count only drops the count
+      if (hadCount && actions.includes("cancel")) {
         tui.requestRender();
-        if (modal.getFileList().length === 0) {
-          done();
-        }
         return;
       }
 
-      if (data === "y") {
-        if (viewController) {
-          if (viewController.isVisualMode) {
-            const diffLines = viewController.getSelectedDiffLines();
-            if (diffLines.length > 0) {
-              const filePath = modal.getSelectedPath() || "";
-              const lineNumbers = diffLines
-                .map((dl: DiffLine) => dl.newLineNumber ?? dl.oldLineNumber)
-                .filter((n: number | undefined): n is number => n !== undefined);
-
-              if (lineNumbers.length > 0) {
-                const minLine = Math.min(...lineNumbers);
-                const maxLine = Math.max(...lineNumbers);
-                const rangeStr = minLine === maxLine ? `${minLine}` : `${minLine}-${maxLine}`;
-                const header = `\`${filePath}:${rangeStr}\``;
-                const codeLines = diffLines.map((dl: DiffLine) => dl.content);
-                const fencedBlock = `${header}\n\`\`\`\n${codeLines.join('\n')}\n\`\`\``;
-                callbacks?.onPasteToEditor?.(fencedBlock);
-                viewController.exitVisualMode();
-                done();
-              }
-            }
-          } else {
-            const diffLine = viewController.getCursorDiffLine();
-            if (diffLine) {
-              const filePath = modal.getSelectedPath() || "";
-              const lineNum = diffLine.newLineNumber ?? diffLine.oldLineNumber;
-              if (lineNum !== undefined) {
-                callbacks?.onPasteToEditor?.(`${filePath}:${lineNum}`);
-                done();
-              }
-            }
+      // Normal diff view mode: the first action that applies handles the key
+      for (const action of actions) {
+        if (runAction(action, count)) {
+          for (let i = 1; REPEATABLE_ACTIONS.has(action) && i < count; i++) {
+            runAction(action);
           }
+          return;
         }
-        return;
       }
     },
 
     invalidate() {},
+
+    dispose() {
+      unsubscribe();
+    },
+
+    getViewState(): OverlayViewState {
+      saveViewState();
+      return {
+        selectedPath: modal.getSelectedPath(),
+        files: Object.fromEntries(viewStates),
+      };
+    },
   };
 }
@@ -1,4 +1,6 @@
 import type { OverlayTui, OverlayTheme, OverlayKeyUtils, OverlayHandler } from "./overlay.js";
+import { formatHelpLine, KeySequenceMatcher, resolveKeymap, type Keymap, type KeySpec } from "./keymap.js";
+import { parseMouseInput } from "./mouse.js";
 
 /**
  * A selectable item in the picker list.
@@ -16,7 +18,7 @@ export interface PickerItem {
 export interface PickerCallbacks {
   onSelect: (item: PickerItem) => void;
   onCancel: () => void;
-  /** Called when user presses 'd' to dismiss an item. Return true if the item was removed. */
+  /** Called when user presses 'd' (the dismiss action) to dismiss an item. Return true if the item was removed. */
   onDismiss?: (item: PickerItem) => boolean;
 }
 
@@ -25,8 +27,23 @@ export interface PickerCallbacks {
  */
 export interface PickerOptions {
   title?: string;
+  /** Key bindings per action, replacing those in DEFAULT_PICKER_KEYMAP */
+  keymap?: PickerKeymap;
 }
 
+/** Default picker bindings */
+export const DEFAULT_PICKER_KEYMAP = {
+  up: ["<Up>", "k"],
+  down: ["<Down>", "j"],
+  select: ["<Enter>"],
+  dismiss: ["d"],
+  cancel: ["<Esc>", "q"],
+} satisfies Record<string, KeySpec[]>;
+
+export type PickerAction = keyof typeof DEFAULT_PICKER_KEYMAP;
+
+export type PickerKeymap = Keymap<PickerAction>;
+
 export function createPickerHandler(
   items: PickerItem[],
   tui: OverlayTui,
@@ -35,11 +52,15 @@ export function createPickerHandler(
   callbacks: PickerCallbacks,
   options?: PickerOptions,
 ): OverlayHandler {
-  const { matchesKey, Key, truncateToWidth } = keyUtils;
+  const { truncateToWidth } = keyUtils;
   let cursorIndex = 0;
   let scrollOffset = 0;
+  // Item shown on each row of the last render (by output row), for the mouse
+  let layout: Array<number | undefined> = [];
 
   const title = options?.title ?? "Select";
+  const keymap = resolveKeymap<PickerAction>(DEFAULT_PICKER_KEYMAP, options?.keymap);
+  const keys = new KeySequenceMatcher(keymap, keyUtils);
 
   return {
     render(width: number): string[] {
@@ -47,6 +68,8 @@ export function createPickerHandler(
       const targetHeight = Math.max(20, Math.floor(termHeight * 0.75));
       const innerWidth = width - 4; // 2 for border chars + 2 for padding
       const content: string[] = [];
+      // Item index of each content row that shows one
+      const itemRows = new Map<number, number>();
 
       const border = theme.fg("border", "│");
       const stripAnsi = (s: string) => s.replace(/\x1b\[[0-9;]*m/g, "");
@@ -104,11 +127,13 @@ export function createPickerHandler(
             itemLine = isSelected ? theme.bold(cursorAndLabel) : cursorAndLabel;
           }
 
+          itemRows.set(content.length, i);
           content.push(itemLine);
 
           // Add description if present
           if (item.description) {
             const descLine = `  ${theme.fg("dim", item.description)}`;
+            itemRows.set(content.length, i);
             content.push(descLine);
           }
         }
@@ -124,7 +149,9 @@ export function createPickerHandler(
       output.push(theme.fg("border", topBorderLeft) + theme.fg("toolTitle", theme.bold(titleText)) + theme.fg("border", topBorderRight));
 
       // Content lines with side borders
-      for (const line of content) {
+      layout = [undefined];
+      for (const [i, line] of content.entries()) {
+        layout.push(itemRows.get(i));
         output.push(padLine(line));
       }
 
@@ -135,8 +162,12 @@ export function createPickerHandler(
 
       // Help line
       if (items.length > 0) {
-        const dismissHint = callbacks.onDismiss ? "  d dismiss" : "";
-        const helpText = theme.fg("dim", `↑↓ navigate  Enter select${dismissHint}  Esc close`);
+        const helpText = theme.fg("dim", formatHelpLine(keymap, [
+          { actions: ["up", "down"], label: "navigate", joiner: "" },
+          { actions: ["select"], label: "select" },
+          ...(callbacks.onDismiss ? [{ actions: ["dismiss" as const], label: "dismiss" }] : []),
+          { actions: ["cancel"], label: "close" },
+        ]));
         output.push(padLine(helpText));
       } else {
         output.push(emptyLine());
@@ -149,9 +180,33 @@ export function createPickerHandler(
     },
 
     handleInput(data: string): boolean {
+      // Mouse: the wheel moves the cursor, a click selects the item under it
+      const mouseEvents = parseMouseInput(data);
+      if (mouseEvents.length > 0) {
+        const origin = tui.getOrigin?.() ?? { row: 1, col: 1 };
+        for (const event of mouseEvents) {
+          const index = layout[event.row - origin.row];
+          if (event.action === "scrollUp" || event.action === "scrollDown") {
+            const step = event.action === "scrollUp" ? -1 : 1;
+            cursorIndex = Math.max(0, Math.min(items.length - 1, cursorIndex + step));
+            tui.requestRender();
+          } else if (event.action === "press" && event.button === "left" && index !== undefined) {
+            cursorIndex = index;
+            callbacks.onSelect(items[index]);
+            return true;
+          }
+        }
+        return true;
+      }
+
+      const actions = keys.feed(data);
+      if (!actions) {
+        return true; // Waiting for the rest of a key sequence
+      }
+
       // Handle empty list
       if (items.length === 0) {
-        if (data === "q" || matchesKey(data, Key.escape)) {
+        if (actions.includes("cancel")) {
           callbacks.onCancel();
           return true;
         }
@@ -159,7 +214,7 @@ export function createPickerHandler(
       }
 
       // Navigation
-      if (data === "j" || matchesKey(data, Key.down)) {
+      if (actions.includes("down")) {
         if (cursorIndex < items.length - 1) {
           cursorIndex++;
         }
@@ -167,7 +222,7 @@ export function createPickerHandler(
         return true;
       }
 
-      if (data === "k" || matchesKey(data, Key.up)) {
+      if (actions.includes("up")) {
         if (cursorIndex > 0) {
           cursorIndex--;
         }
@@ -176,13 +231,13 @@ export function createPickerHandler(
       }
 
       // Selection
-      if (matchesKey(data, Key.enter)) {
+      if (actions.includes("select")) {
         callbacks.onSelect(items[cursorIndex]);
         return true;
       }
 
       // Dismiss
-      if (data === "d" && callbacks.onDismiss) {
+      if (actions.includes("dismiss") && callbacks.onDismiss) {
         const removed = callbacks.onDismiss(items[cursorIndex]);
         if (removed) {
           items.splice(cursorIndex, 1);
@@ -199,7 +254,7 @@ export function createPickerHandler(
       }
 
       // Cancel
-      if (data === "q" || matchesKey(data, Key.escape)) {
+      if (actions.includes("cancel")) {
         callbacks.onCancel();
         return true;
       }
@@ -0,0 +1,760 @@
+import { formatFoldSummary, formatHunkHeader, getHunks, type FileDiff, type DiffLine } from './diff-engine.js';
+import { applyLineBackground, highlightRanges, padAnsi, panAnsi, truncateAnsi, wrapAnsi, wrappedRowCount } from './ansi.js';
+import { findMatches } from './search.js';
+import { DARK_DIFF_THEME, type DiffTheme } from './diff-theme.js';
+
+export type HighlightFn = (code: string, filePath: string) => string;
+
+/**
+ * Cursor, scroll and selection position of a view in rendered-line space.
+ * Plain data so callers can keep it per file and serialize it.
+ */
+export interface ViewState {
+  cursorLine: number;
+  scrollOffset: number;
+  /** Present while visual line mode is active */
+  visualAnchor?: number;
+  /** Indices into getHunks() of folded hunks, when any are folded */
+  folded?: number[];
+}
+
+export interface DiffRow {
+  kind: 'line' | 'separator' | 'fold'; // fold = summary row of a folded hunk
+  hunk: number; // Index into getHunks(); separators belong to the hunk they introduce
+  cells: number[]; // Index into diff.hunks per column, -1 for an empty cell; none on separator and fold rows
+  lineIndex: number; // Line the row stands for (its last non-empty cell), -1 on separator and fold rows
+  header?: string; // @@ range header on separator rows, summary on fold rows
+}
+
+interface RenderedCell {
+  content: string; // ANSI-colored gutter + content, not yet fitted to width
+  rawContent: string; // Without ANSI codes
+  gutterWidth: number; // Columns of line number + prefix
+  continuation: string; // Gutter shown on wrapped continuation rows
+}
+
+/** Cells of each column kept rendered (highlighted) for reuse across renders */
+const RENDER_CACHE_LIMIT = 2000;
+
+/**
+ * Cursor, scrolling, visual selection, folds, wrapping and rendering shared
+ * by the diff layouts. A layout supplies the rows of each hunk, one cell
+ * (a diff line) per column, and the widths of its columns; the cursor
+ * moves by row.
+ */
+export abstract class RowDiffView {
+  protected diff: FileDiff;
+  protected highlightFn?: HighlightFn;
+  protected theme: DiffTheme;
+  protected rows: DiffRow[] = [];
+  /** Columns of line number + prefix, the same in every cell */
+  protected gutterWidth = 0;
+  /** Widest cell per column, for panning */
+  protected maxCellWidths: number[] = [];
+  private _scrollOffset = 0;
+  private _cursorLine = 0;
+  private _visualMode: boolean = false;
+  private _visualAnchor: number = 0;
+  private search?: RegExp;
+  private searchMatchLines?: number[]; // Cached until the search or rows change
+  private _wrap = false;
+  private wrapWidth = 0; // Width of the last render, which wrapping depends on
+  private _columnOffset = 0;
+  private folded = new Set<number>();
+  private hunkStarts: number[] = []; // Index into diff.hunks where each hunk begins
+  // Cells are highlighted and colored only when shown; see getCell()
+  private renderCache: Map<number, RenderedCell>[] = [];
+  private rowStarts?: { width: number; starts: number[] };
+
+  /**
+   * Subclasses call buildRows() once their own fields are set up
+   */
+  constructor(diff: FileDiff, highlightFn?: HighlightFn, theme: DiffTheme = DARK_DIFF_THEME) {
+    this.diff = diff;
+    this.highlightFn = highlightFn;
+    this.theme = theme;
+  }
+
+  /**
+   * Set gutterWidth and maxCellWidths for the current diff
+   */
+  protected abstract measure(): void;
+
+  /**
+   * Rows showing the lines of an unfolded hunk; lines[i] is diff.hunks[start + i]
+   */
+  protected abstract buildHunkRows(lines: DiffLine[], start: number, hunk: number): DiffRow[];
+
+  /**
+   * Widths of the columns at a rendered width
+   */
+  protected abstract getColumnWidths(width: number): number[];
+
+  /**
+   * Line number text of a line in a column's gutter
+   */
+  protected abstract formatLineNumber(line: DiffLine, column: number): string;
+
+  /**
+   * Indices into getHunks() of folded hunks, ascending
+   */
+  getFoldedHunks(): number[] {
+    return [...this.folded].sort((a, b) => a - b);
+  }
+
+  /**
+   * Fold exactly the given hunks (out-of-range indices are ignored).
+   * Folded hunks render as one summary row; the cursor and visual anchor
+   * stay on the same line, or move to the summary row of a folded hunk.
+   */
+  setFoldedHunks(hunkIndices: number[]): void {
+    const cursor = this.locate(this._cursorLine);
+    const anchor = this.locate(this._visualAnchor);
+
+    const hunkCount = this.hunkStarts.length;
+    this.folded = new Set(hunkIndices.filter(h => h >= 0 && h < hunkCount));
+    this.buildRows();
+
+    this.setCursor(cursor ? this.findRow(cursor) : this._cursorLine);
+    if (anchor) {
+      this._visualAnchor = Math.max(0, this.findRow(anchor));
+    }
+  }
+
+  /**
+   * Index into getHunks() of the hunk a row belongs to (separators belong
+   * to the hunk they introduce; -1 out of range)
+   */
+  getHunkIndexAt(index: number): number {
+    return this.rows[index]?.hunk ?? -1;
+  }
+
+  /**
+   * Highlight matches of a search pattern (undefined clears it).
+   * Matching runs on raw DiffLine.content; cursor and scroll are kept.
+   */
+  setSearch(regex: RegExp | undefined): void {
+    this.search = regex;
+    this.clearRenderCache();
+    this.buildRows();
+  }
+
+  /**
+   * Rows where any cell matches the search, in order. The list is cached
+   * and shared, so it must not be modified.
+   */
+  getSearchMatchLines(): number[] {
+    const search = this.search;
+    if (!search) {
+      return [];
+    }
+    if (this.searchMatchLines) {
+      return this.searchMatchLines;
+    }
+    const matches = (lineIndex: number) =>
+      lineIndex !== -1 && findMatches(this.diff.hunks[lineIndex].content, search).length > 0;
+    const rows: number[] = [];
+    this.rows.forEach((row, i) => {
+      // A fold row matches when anything folded into it does
+      const cells = row.kind === 'fold' ? this.hunkLineIndices(row.hunk) : row.cells;
+      if (cells.some(matches)) {
+        rows.push(i);
+      }
+    });
+    this.searchMatchLines = rows;
+    return rows;
+  }
+
+  get cursorLine(): number {
+    return this._cursorLine;
+  }
+
+  get isVisualMode(): boolean {
+    return this._visualMode;
+  }
+
+  get visualAnchor(): number {
+    return this._visualAnchor;
+  }
+
+  enterVisualMode(): void {
+    this._visualMode = true;
+    this._visualAnchor = this._cursorLine;
+  }
+
+  exitVisualMode(): void {
+    this._visualMode = false;
+  }
+
+  getVisualRange(): [number, number] {
+    const min = Math.min(this._visualAnchor, this._cursorLine);
+    const max = Math.max(this._visualAnchor, this._cursorLine);
+    return [min, max];
+  }
+
+  /**
+   * Selected rows as plain text; the cells of a row are joined with │
+   */
+  getSelectedRawLines(): string[] {
+    const [min, max] = this.getVisualRange();
+    const selectedLines: string[] = [];
+
+    for (let i = min; i <= max; i++) {
+      const row = this.rows[i];
+      if (!row) {
+        continue;
+      }
+      if (row.kind === 'line') {
+        selectedLines.push(row.cells.map((lineIndex, c) => this.getCell(lineIndex, c)?.rawContent ?? '').join(' │ '));
+      } else {
+        selectedLines.push(this.renderHeader(row).rawContent);
+      }
+    }
+
+    return selectedLines;
+  }
+
+  /**
+   * Selected DiffLines in diff order: within a paired block all removed
+   * lines come before the added ones. Lines inside folded hunks are not
+   * visible and are left out.
+   */
+  getSelectedDiffLines(): DiffLine[] {
+    const [min, max] = this.getVisualRange();
+    const indices = new Set<number>();
+
+    for (let i = min; i <= max; i++) {
+      for (const lineIndex of this.rows[i]?.cells ?? []) {
+        if (lineIndex !== -1) {
+          indices.add(lineIndex);
+        }
+      }
+    }
+
+    return [...indices]
+      .sort((a, b) => a - b)
+      .map(index => this.diff.hunks[index]);
+  }
+
+  setDiff(diff: FileDiff): void {
+    this.diff = diff;
+    this._scrollOffset = 0;
+    this._cursorLine = 0;
+    this._visualMode = false;
+    this.folded.clear();
+    this.clearRenderCache();
+    this.buildRows();
+  }
+
+  moveCursor(delta: number): void {
+    this.setCursor(this._cursorLine + delta);
+  }
+
+  setCursor(line: number): void {
+    const maxLine = Math.max(0, this.rows.length - 1);
+    this._cursorLine = Math.max(0, Math.min(line, maxLine));
+    // Auto-scroll happens in render() since we need visibleHeight
+  }
+
+  /**
+   * DiffLine under the cursor. Rows with two sides give the new (right)
+   * one so yanked line numbers refer to the current file.
+   */
+  getCursorDiffLine(): DiffLine | undefined {
+    const lineIndex = this.getDiffLineIndexAt(this._cursorLine);
+    return lineIndex === -1 ? undefined : this.diff.hunks[lineIndex];
+  }
+
+  /**
+   * Index into diff.hunks for a row (right side preferred, -1 for
+   * separators, fold rows and out of range)
+   */
+  getDiffLineIndexAt(index: number): number {
+    return this.rows[index]?.lineIndex ?? -1;
+  }
+
+  /**
+   * Row showing diff.hunks[lineIndex] in any cell, or the summary row of
+   * its folded hunk (-1 if not rendered)
+   */
+  getLineForDiffLineIndex(lineIndex: number): number {
+    if (lineIndex < 0 || lineIndex >= this.diff.hunks.length) {
+      return -1;
+    }
+    const line = this.rows.findIndex(row => row.cells.includes(lineIndex));
+    if (line !== -1) {
+      return line;
+    }
+
+    let hunk = 0;
+    while (hunk + 1 < this.hunkStarts.length && this.hunkStarts[hunk + 1] <= lineIndex) {
+      hunk++;
+    }
+    return this.rows.findIndex(row => row.kind === 'fold' && row.hunk === hunk);
+  }
+
+  /**
+   * Rows where a run of added/removed lines begins, in order
+   */
+  getChangeBlockStarts(): number[] {
+    const starts: number[] = [];
+    let inBlock = false;
+    for (let i = 0; i < this.rows.length; i++) {
+      const row = this.rows[i];
+      // Every hunk has changes, so a fold row stands for at least one block
+      const isChange = row.kind === 'fold'
+        || (row.kind === 'line' && this.diff.hunks[row.lineIndex].type !== 'context');
+      if (isChange && !inBlock) {
+        starts.push(i);
+      }
+      inBlock = isChange;
+    }
+    return starts;
+  }
+
+  isSeparatorLine(index: number): boolean {
+    return this.rows[index]?.kind === 'separator';
+  }
+
+  /**
+   * Whether a row is the summary row of a folded hunk
+   */
+  isFoldLine(index: number): boolean {
+    return this.rows[index]?.kind === 'fold';
+  }
+
+  scrollUp(lines: number = 1): void {
+    this.moveCursor(-lines);
+  }
+
+  scrollDown(lines: number = 1): void {
+    this.moveCursor(lines);
+  }
+
+  scrollToTop(): void {
+    this._cursorLine = 0;
+    this._scrollOffset = 0;
+  }
+
+  scrollToBottom(): void {
+    this._cursorLine = Math.max(0, this.rows.length - 1);
+    this._scrollOffset = Math.max(0, this.rows.length);
+  }
+
+  get totalLines(): number {
+    return this.rows.length;
+  }
+
+  /**
+   * Display rows at the last rendered width: totalLines, plus continuation
+   * rows when wrapping
+   */
+  get totalRows(): number {
+    return this.getRowStarts()[this.rows.length];
+  }
+
+  /**
+   * First display row of a row
+   */
+  getDisplayRow(index: number): number {
+    const starts = this.getRowStarts();
+    return starts[Math.max(0, Math.min(index, this.rows.length))];
+  }
+
+  /**
+   * Line shown at `row` (from 0) of the viewport as last rendered, or -1
+   * outside the content (e.g. to map a mouse click to a line)
+   */
+  getLineAtRow(row: number): number {
+    const starts = this.getRowStarts();
+    const target = this._scrollOffset + row;
+    if (row < 0 || target >= starts[this.rows.length]) {
+      return -1;
+    }
+
+    // Last line starting at or above the row (wrapped lines span several)
+    let low = 0;
+    let high = this.rows.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (starts[mid] <= target) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+
+  get wrap(): boolean {
+    return this._wrap;
+  }
+
+  /**
+   * Soft-wrap long cells onto continuation rows instead of truncating them;
+   * a row is as tall as its tallest cell. The cursor still moves by row;
+   * scrollOffset counts display rows and the cursor keeps its screen row.
+   */
+  setWrap(wrap: boolean): void {
+    if (wrap === this._wrap) {
+      return;
+    }
+    const screenRow = this.getDisplayRow(this._cursorLine) - this._scrollOffset;
+    this._wrap = wrap;
+    this.rowStarts = undefined;
+    this.setScrollOffset(this.getDisplayRow(this._cursorLine) - screenRow);
+  }
+
+  get columnOffset(): number {
+    return this._columnOffset;
+  }
+
+  /**
+   * Pan cell content `offset` columns to the right, keeping the gutters in
+   * place. Clamped so the end of the longest cell stays reachable at the
+   * rendered width; ignored while wrapping.
+   */
+  setColumnOffset(offset: number): void {
+    this._columnOffset = Math.max(0, Math.min(offset, this.getMaxColumnOffset()));
+  }
+
+  get scrollOffset(): number {
+    return this._scrollOffset;
+  }
+
+  /**
+   * Set the first visible display row (clamped on the next render)
+   */
+  setScrollOffset(offset: number): void {
+    this._scrollOffset = Math.max(0, offset);
+  }
+
+  getViewState(): ViewState {
+    return {
+      cursorLine: this._cursorLine,
+      scrollOffset: this._scrollOffset,
+      ...(this._visualMode ? { visualAnchor: this._visualAnchor } : {}),
+      ...(this.folded.size > 0 ? { folded: this.getFoldedHunks() } : {}),
+    };
+  }
+
+  /**
+   * Restore a position from getViewState(), clamped to the current diff
+   */
+  setViewState(state: ViewState): void {
+    this.setFoldedHunks(state.folded ?? []);
+    const maxLine = Math.max(0, this.rows.length - 1);
+    this.setCursor(state.cursorLine);
+    this.setScrollOffset(state.scrollOffset);
+    this._visualMode = state.visualAnchor !== undefined;
+    this._visualAnchor = Math.max(0, Math.min(state.visualAnchor ?? 0, maxLine));
+  }
+
+  render(width: number, visibleHeight: number): string[] {
+    this.wrapWidth = width;
+    // Display row where each row starts (starts[n] = total rows); without
+    // wrapping every row is one display row
+    const starts = this.getRowStarts();
+    const totalRows = starts[this.rows.length];
+    const cursorTop = starts[this._cursorLine] ?? 0;
+    const cursorBottom = (starts[this._cursorLine + 1] ?? 1) - 1;
+
+    // Scroll margin: cursor moves freely within the viewport. When it gets
+    // within SCROLL_MARGIN lines of the edge, the viewport scrolls to maintain
+    // the buffer. At file boundaries the cursor can reach the very edge.
+    const SCROLL_MARGIN = 5;
+    const margin = Math.min(SCROLL_MARGIN, Math.floor((visibleHeight - 1) / 2));
+
+    // Only scroll if cursor is outside the viewport entirely, or has entered
+    // the margin zone from the appropriate direction
+    const topBound = this._scrollOffset + margin;
+    const bottomBound = this._scrollOffset + visibleHeight - 1 - margin;
+
+    if (cursorBottom > bottomBound) {
+      // Cursor below safe zone — scroll down to restore margin, but never
+      // past the first row of a line taller than the viewport
+      this._scrollOffset = Math.min(cursorBottom - visibleHeight + 1 + margin, cursorTop);
+    } else if (cursorTop < topBound) {
+      // Cursor above safe zone — scroll up to restore margin
+      this._scrollOffset = cursorTop - margin;
+    }
+
+    // Clamp scroll offset to valid range
+    const maxOffset = Math.max(0, totalRows - visibleHeight);
+    this._scrollOffset = Math.max(0, Math.min(this._scrollOffset, maxOffset));
+    const offset = this._scrollOffset;
+
+    this.setColumnOffset(this._columnOffset);
+
+    const output: string[] = [];
+    let lineIndex = 0;
+    while (lineIndex < this.rows.length && starts[lineIndex + 1] <= offset) {
+      lineIndex++;
+    }
+
+    for (; lineIndex < this.rows.length && output.length < visibleHeight; lineIndex++) {
+      const row = this.rows[lineIndex];
+      // Only rows in the viewport are highlighted and colored
+      const displayRows = row.kind === 'line'
+        ? this.renderCells(row, width)
+        : [this.renderHeader(row).content];
+
+      // Check if row is within visual range
+      let inVisualRange = false;
+      if (this._visualMode) {
+        const [min, max] = this.getVisualRange();
+        inVisualRange = lineIndex >= min && lineIndex <= max;
+      }
+
+      const firstRow = Math.max(0, offset - starts[lineIndex]);
+      for (let r = firstRow; r < displayRows.length && output.length < visibleHeight; r++) {
+        let content = displayRows[r];
+
+        // Cursor line and visual selection get one uniform background over
+        // the added/removed colors
+        if (lineIndex === this._cursorLine) {
+          content = applyLineBackground(content, this.theme.cursorBg);
+        } else if (inVisualRange) {
+          content = applyLineBackground(content, this.theme.visualBg);
+        }
+
+        output.push(truncateAnsi(content, width));
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Row for one diff line per column (-1 for an empty cell)
+   */
+  protected lineRow(hunk: number, cells: number[]): DiffRow {
+    const filled = cells.filter(lineIndex => lineIndex !== -1);
+    return { kind: 'line', hunk, cells, lineIndex: filled[filled.length - 1] ?? -1 };
+  }
+
+  protected buildRows(): void {
+    this.rows = [];
+    this.hunkStarts = [];
+    this.rowStarts = undefined;
+    this.searchMatchLines = undefined;
+
+    if (this.diff.hunks.length === 0) {
+      return;
+    }
+
+    this.measure();
+
+    // Hunk lines are the same objects, in the same order, as diff.hunks
+    let hunkStart = 0;
+    const hunks = getHunks(this.diff);
+
+    for (let h = 0; h < hunks.length; h++) {
+      const hunk = hunks[h];
+      this.hunkStarts.push(hunkStart);
+
+      // Header row between hunks marks the skipped unchanged lines
+      if (h > 0) {
+        this.rows.push({ kind: 'separator', hunk: h, cells: [], lineIndex: -1, header: formatHunkHeader(hunk) });
+      }
+
+      if (this.folded.has(h)) {
+        this.rows.push({ kind: 'fold', hunk: h, cells: [], lineIndex: -1, header: formatFoldSummary(hunk) });
+      } else {
+        // Not push(...rows): a large hunk would exceed the argument limit
+        for (const row of this.buildHunkRows(hunk.lines, hunkStart, h)) {
+          this.rows.push(row);
+        }
+      }
+      hunkStart += hunk.lines.length;
+    }
+  }
+
+  protected clearRenderCache(): void {
+    this.renderCache = [];
+  }
+
+  /**
+   * Offset that shows the end of the longest cell at the rendered width
+   */
+  private getMaxColumnOffset(): number {
+    const widths = this.getColumnWidths(this.wrapWidth);
+    return Math.max(0, ...this.maxCellWidths.map((cellWidth, c) => cellWidth - (widths[c] ?? 0)));
+  }
+
+  /**
+   * Display row where each row starts, plus the total row count at the
+   * end, for the last rendered width
+   */
+  private getRowStarts(): number[] {
+    if (this.rowStarts?.width === this.wrapWidth) {
+      return this.rowStarts.starts;
+    }
+
+    // Row counts come from raw text lengths, so nothing has to be rendered
+    const widths = this.getColumnWidths(this.wrapWidth);
+    const gutterWidth = this.gutterWidth;
+    const height = (lineIndex: number, width: number) => lineIndex === -1
+      ? 1
+      : wrappedRowCount(gutterWidth + this.diff.hunks[lineIndex].content.length, width, gutterWidth);
+
+    const starts = [0];
+    for (const row of this.rows) {
+      const rows = this._wrap && row.kind === 'line'
+        ? Math.max(...row.cells.map((lineIndex, c) => height(lineIndex, widths[c])))
+        : 1;
+      starts.push(starts[starts.length - 1] + rows);
+    }
+    this.rowStarts = { width: this.wrapWidth, starts };
+    return starts;
+  }
+
+  /**
+   * Display rows of a line row: each cell wrapped or panned to its column,
+   * with columns padded and divided by │
+   */
+  private renderCells(row: DiffRow, width: number): string[] {
+    const widths = this.getColumnWidths(width);
+    const columns = row.cells.map((lineIndex, c) => this.fitCell(this.getCell(lineIndex, c), widths[c]));
+    if (columns.length === 1) {
+      return columns[0];
+    }
+
+    const divider = `${this.theme.gutter}│\x1b[0m`;
+    return Array.from({ length: Math.max(...columns.map(rows => rows.length)) }, (_, r) =>
+      columns.map((rows, c) => padAnsi(rows[r] ?? '', widths[c])).join(divider)
+    );
+  }
+
+  /**
+   * Display rows of one cell (a single row unless wrapping)
+   */
+  private fitCell(cell: RenderedCell | undefined, width: number): string[] {
+    if (!cell) {
+      return [];
+    }
+    return this._wrap
+      ? wrapAnsi(cell.content, width, cell.gutterWidth, cell.continuation)
+      : [panAnsi(cell.content, width, cell.gutterWidth, this._columnOffset)];
+  }
+
+  /**
+   * Rendered cell of diff.hunks[lineIndex] in a column (undefined for -1).
+   * Cells are highlighted on first use and cached, oldest evicted first.
+   */
+  private getCell(lineIndex: number, column: number): RenderedCell | undefined {
+    if (lineIndex === -1) {
+      return undefined;
+    }
+
+    const cache = (this.renderCache[column] ??= new Map());
+    let cell = cache.get(lineIndex);
+    if (!cell) {
+      cell = this.renderCell(this.diff.hunks[lineIndex], this.formatLineNumber(this.diff.hunks[lineIndex], column));
+      if (cache.size >= RENDER_CACHE_LIMIT) {
+        cache.delete(cache.keys().next().value!);
+      }
+      cache.set(lineIndex, cell);
+    }
+    return cell;
+  }
+
+  private renderCell(line: DiffLine, lineNumStr: string): RenderedCell {
+    let prefix: string;
+    let gutterColor: string;
+    let content = line.content;
+    let bgStart = '';
+    let bgEnd = '';
+    let wordBg = '';
+
+    // Apply syntax highlighting to all line types
+    if (this.highlightFn) {
+      content = this.highlightFn(line.content, this.diff.filePath);
+    }
+
+    const theme = this.theme;
+    switch (line.type) {
+      case 'added':
+        prefix = '+';
+        gutterColor = theme.addedFg;
+        bgStart = theme.addedBg;
+        bgEnd = bgStart && '\x1b[49m';
+        // Stronger background for changed words
+        wordBg = theme.addedWordBg;
+        break;
+      case 'removed':
+        prefix = '-';
+        gutterColor = theme.removedFg;
+        bgStart = theme.removedBg;
+        bgEnd = bgStart && '\x1b[49m';
+        wordBg = theme.removedWordBg;
+        break;
+      case 'context':
+        prefix = ' ';
+        gutterColor = theme.gutter;
+        break;
+    }
+
+    // Intra-line edits: stronger background on just the changed spans
+    if (line.changes && wordBg) {
+      content = highlightRanges(content, line.changes, wordBg, bgStart || '\x1b[49m');
+    }
+
+    // Search matches in reverse video, which leaves the backgrounds alone
+    if (this.search) {
+      content = highlightRanges(content, findMatches(line.content, this.search), '\x1b[7m', '\x1b[27m');
+    }
+
+    // Format: [bg][gutter color][line number prefix][reset gutter] [highlighted content][reset]
+    const gutter = `${gutterColor}${lineNumStr} ${prefix} \x1b[0m`;
+    return {
+      content: `${bgStart}${gutter}${bgStart}${content}${bgEnd}\x1b[0m`,
+      rawContent: `${lineNumStr} ${prefix} ${line.content}`,
+      gutterWidth: lineNumStr.length + 3,
+      // Wrapped rows keep the line's background, with ↪ in the prefix column
+      continuation: `${bgStart}${gutterColor}${' '.repeat(lineNumStr.length)} ↪ \x1b[0m`,
+    };
+  }
+
+  /**
+   * Content of a separator or fold row
+   */
+  private renderHeader(row: DiffRow): { content: string; rawContent: string } {
+    const marker = row.kind === 'fold' ? '▸' : '···';
+    return {
+      content: `${this.theme.gutter}${marker}\x1b[0m ${this.theme.separator}${row.header ?? ''}\x1b[0m`,
+      rawContent: `${marker} ${row.header ?? ''}`,
+    };
+  }
+
+  /**
+   * Indices into diff.hunks of a hunk's lines
+   */
+  private hunkLineIndices(hunkIndex: number): number[] {
+    const start = this.hunkStarts[hunkIndex] ?? 0;
+    const end = this.hunkStarts[hunkIndex + 1] ?? this.diff.hunks.length;
+    return Array.from({ length: end - start }, (_, i) => start + i);
+  }
+
+  /**
+   * What a row shows, independent of which hunks are folded
+   */
+  private locate(index: number): { kind: DiffRow['kind']; hunk: number; lineIndex: number } | undefined {
+    const row = this.rows[index];
+    return row && { kind: row.kind, hunk: row.hunk, lineIndex: row.lineIndex };
+  }
+
+  /**
+   * Row for a locate() result under the current folds
+   */
+  private findRow(location: { kind: DiffRow['kind']; hunk: number; lineIndex: number }): number {
+    if (location.kind === 'line') {
+      return this.getLineForDiffLineIndex(location.lineIndex);
+    }
+    if (location.kind === 'separator') {
+      return this.rows.findIndex(row => row.kind === 'separator' && row.hunk === location.hunk);
+    }
+    // A reopened fold puts the cursor on the hunk's first row
+    return this.rows.findIndex(row => row.kind !== 'separator' && row.hunk === location.hunk);
+  }
+}
@@ -0,0 +1,77 @@
+import type { ChangeRange, DiffLine, FileDiff } from './diff-engine.js';
+
+/**
+ * A search hit in one file: the matching DiffLine, its index into
+ * FileDiff.hunks and the matched spans of its raw content
+ */
+export interface SearchHit {
+  path: string;
+  lineIndex: number;
+  line: DiffLine;
+  ranges: ChangeRange[];
+}
+
+/**
+ * Compile a search pattern as a regex with smart-case: case-insensitive
+ * unless the pattern contains an uppercase letter outside an escape (so
+ * `\S` or `\W` don't count). Patterns that aren't valid regexes are
+ * matched literally. Returns undefined for an empty pattern.
+ */
+export function compileSearch(pattern: string): RegExp | undefined {
+  if (pattern === '') {
+    return undefined;
+  }
+
+  const unescaped = pattern.replace(/\\./g, '');
+  const flags = /[A-Z]/.test(unescaped) ? 'g' : 'gi';
+  try {
+    return new RegExp(pattern, flags);
+  } catch {
+    return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), flags);
+  }
+}
+
+/** Global copies of non-global regexes passed to findMatches() */
+const globalCopies = new WeakMap<RegExp, RegExp>();
+
+/**
+ * Spans of `text` matched by `regex` (empty matches are skipped). A
+ * global regex is used as is, with its lastIndex reset; other regexes
+ * get one global copy each.
+ */
+export function findMatches(text: string, regex: RegExp): ChangeRange[] {
+  const ranges: ChangeRange[] = [];
+  let global = regex.global ? regex : globalCopies.get(regex);
+  if (!global) {
+    global = new RegExp(regex.source, regex.flags + 'g');
+    globalCopies.set(regex, global);
+  }
+  global.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = global.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      global.lastIndex++;
+      continue;
+    }
+    ranges.push({ start: match.index, end: match.index + match[0].length });
+  }
+
+  return ranges;
+}
+
+/**
+ * Every line of a diff whose raw content matches, in diff order
+ */
+export function searchDiff(diff: FileDiff, regex: RegExp): SearchHit[] {
+  const hits: SearchHit[] = [];
+
+  diff.hunks.forEach((line, lineIndex) => {
+    const ranges = findMatches(line.content, regex);
+    if (ranges.length > 0) {
+      hits.push({ path: diff.filePath, lineIndex, line, ranges });
+    }
+  });
+
+  return hits;
+}
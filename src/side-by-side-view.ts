@@ -0,0 +1,86 @@
+import type { FileDiff, DiffLine } from './diff-engine.js';
+import { RowDiffView, type DiffRow, type HighlightFn } from './row-view.js';
+import { DARK_DIFF_THEME, type DiffTheme } from './diff-theme.js';
+
+/**
+ * Split diff view: old lines on the left, new lines on the right.
+ * Runs of removed/added lines are paired up row by row; context lines
+ * appear on both sides. Exposes the same cursor/scroll/visual surface
+ * as InlineDiffView, with rows as the unit of movement.
+ */
+export class SideBySideDiffView extends RowDiffView {
+  private lineNumberWidth = 1;
+
+  constructor(diff: FileDiff, highlightFn?: HighlightFn, theme: DiffTheme = DARK_DIFF_THEME) {
+    super(diff, highlightFn, theme);
+    this.buildRows();
+  }
+
+  protected measure(): void {
+    this.lineNumberWidth = this.getMaxLineNumber().toString().length;
+    this.gutterWidth = this.lineNumberWidth + 3;
+    // Widest cell per side (added lines only appear right, removed left)
+    this.maxCellWidths = [0, 0];
+    for (const line of this.diff.hunks) {
+      const width = this.gutterWidth + line.content.length;
+      if (line.type !== 'added') {
+        this.maxCellWidths[0] = Math.max(this.maxCellWidths[0], width);
+      }
+      if (line.type !== 'removed') {
+        this.maxCellWidths[1] = Math.max(this.maxCellWidths[1], width);
+      }
+    }
+  }
+
+  protected buildHunkRows(lines: DiffLine[], start: number, hunk: number): DiffRow[] {
+    const rows: DiffRow[] = [];
+    let i = 0;
+    while (i < lines.length) {
+      if (lines[i].type === 'context') {
+        rows.push(this.lineRow(hunk, [start + i, start + i]));
+        i++;
+        continue;
+      }
+
+      // Collect a change block: removed run followed by added run
+      const removed: number[] = [];
+      const added: number[] = [];
+      while (i < lines.length && lines[i].type === 'removed') {
+        removed.push(start + i++);
+      }
+      while (i < lines.length && lines[i].type === 'added') {
+        added.push(start + i++);
+      }
+
+      const pairCount = Math.max(removed.length, added.length);
+      for (let p = 0; p < pairCount; p++) {
+        rows.push(this.lineRow(hunk, [removed[p] ?? -1, added[p] ?? -1]));
+      }
+    }
+    return rows;
+  }
+
+  /**
+   * Widths of the two halves, which are separated by a one-column divider
+   */
+  protected getColumnWidths(width: number): number[] {
+    const leftWidth = Math.max(0, Math.floor((width - 1) / 2));
+    return [leftWidth, Math.max(0, width - 1 - leftWidth)];
+  }
+
+  /**
+   * Left cells show old line numbers, right cells new ones
+   */
+  protected formatLineNumber(line: DiffLine, column: number): string {
+    const lineNumber = (column === 0 ? line.oldLineNumber : line.newLineNumber) ?? 0;
+    return lineNumber.toString().padStart(this.lineNumberWidth, ' ');
+  }
+
+  private getMaxLineNumber(): number {
+    let max = 0;
+    for (const hunk of this.diff.hunks) {
+      max = Math.max(max, hunk.oldLineNumber ?? 0, hunk.newLineNumber ?? 0);
+    }
+    return max;
+  }
+}
@@ -1,8 +1,10 @@
 /** Re-export core types for convenience */
-export type { DiffLine, FileDiff } from './diff-engine.js';
-export type { FileSnapshot } from './diff-state.js';
+export type { ChangeRange, DiffLine, FileDiff, Hunk, LineRange } from './diff-engine.js';
+export type { Checkpoint, ChangeQuery, DiffStateEvent, DiffStateEventType, DiffStateListener, FileSnapshot, FileVersion } from './diff-state.js';
 export type { ModalFileEntry } from './modal.js';
-export type { HighlightFn } from './inline-view.js';
+export type { GutterMode, HighlightFn, ViewState } from './inline-view.js';
+export type { DiffTheme } from './diff-theme.js';
+export type { Keymap, KeySpec } from './keymap.js';
 
 /** Mode the diff review modal is currently in */
 export type ModalMode = 'diff' | 'filePicker' | 'visual';
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { ContentStore, hashContent } from '../src/content-store';
+
+describe('content-store', () => {
+  describe('hashContent', () => {
+    it('is stable and content-sensitive', () => {
+      expect(hashContent('line 1\n')).toBe(hashContent('line 1\n'));
+      expect(hashContent('line 1\n')).not.toBe(hashContent('line 1'));
+      expect(hashContent('')).not.toBe(hashContent(' '));
+    });
+  });
+
+  describe('ContentStore', () => {
+    it('stores identical contents once under one key', () => {
+      const store = new ContentStore();
+      const first = store.retain('a\nb\n');
+      const second = store.retain(['a', 'b', ''].join('\n'));
+
+      expect(second).toBe(first);
+      expect(store.size).toBe(1);
+      expect(store.retain('c\n')).not.toBe(first);
+      expect(store.size).toBe(2);
+    });
+
+    it('frees content with its last reference', () => {
+      const store = new ContentStore();
+      const key = store.retain('a');
+      store.retain('a');
+
+      store.release(key);
+      expect(store.get(key)).toBe('a');
+      store.release(key);
+      expect(store.size).toBe(0);
+      expect(store.get(key)).toBe('');
+    });
+
+    it('ignores releasing unknown keys', () => {
+      const store = new ContentStore();
+      store.release('missing');
+      expect(store.size).toBe(0);
+    });
+  });
+});
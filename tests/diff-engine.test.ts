@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { computeDiff, DiffLine, FileDiff } from '../src/diff-engine';
+import { computeDiff, computeDiffStats, formatFoldSummary, formatHunkHeader, getHiddenLines, getHunks, DiffLine, FileDiff } from '../src/diff-engine';
+import { DIFF_CONTEXT_LINES } from '../src/constants';
 
 describe('diff-engine', () => {
   describe('computeDiff', () => {
@@ -148,4 +149,277 @@ describe('diff-engine', () => {
       expect(result.hunks).toHaveLength(0);
     });
   });
+
+  describe('word-level changes', () => {
+    it('should mark changed words on paired removed/added lines', () => {
+      const result = computeDiff('test.txt', 'const foo = 1;\n', 'const bar = 1;\n');
+
+      const removed = result.hunks.find(h => h.type === 'removed')!;
+      const added = result.hunks.find(h => h.type === 'added')!;
+
+      expect(removed.changes).toEqual([{ start: 6, end: 9 }]);
+      expect(added.changes).toEqual([{ start: 6, end: 9 }]);
+      expect(added.content.slice(6, 9)).toBe('bar');
+    });
+
+    it('should pair lines by position within a change block', () => {
+      const original = 'a one\nb two\n';
+      const current = 'a uno\nb dos\nextra line\n';
+
+      const result = computeDiff('test.txt', original, current);
+      const added = result.hunks.filter(h => h.type === 'added');
+
+      expect(added[0].changes).toBeDefined();
+      expect(added[1].changes).toBeDefined();
+      // Unpaired line keeps whole-line highlighting
+      expect(added[2].changes).toBeUndefined();
+    });
+
+    it('should skip lines with nothing in common', () => {
+      const result = computeDiff('test.txt', 'alpha\n', 'omega\n');
+
+      for (const line of result.hunks) {
+        expect(line.changes).toBeUndefined();
+      }
+    });
+
+    it('should not pair lines of different hunks with zero context', () => {
+      const result = computeDiff('test.txt', 'const a = 1;\nx\ny\n', 'x\ny\nconst b = 2;\n', { context: 0 });
+
+      expect(result.structuredHunks).toHaveLength(2);
+      for (const line of result.hunks) {
+        expect(line.changes).toBeUndefined();
+      }
+    });
+
+    it('should not set changes on context lines', () => {
+      const result = computeDiff('test.txt', 'x\ny = 1\n', 'x\ny = 2\n');
+      const context = result.hunks.filter(h => h.type === 'context');
+      expect(context.every(h => h.changes === undefined)).toBe(true);
+    });
+  });
+
+  describe('structured hunks', () => {
+    const original = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+    const current = original.replace('line 2\n', 'line 2 changed\n').replace('line 18\n', '');
+
+    it('should keep hunk ranges from the patch', () => {
+      const result = computeDiff('test.txt', original, current);
+
+      expect(result.structuredHunks).toHaveLength(2);
+      const [first, second] = result.structuredHunks!;
+      expect(first).toMatchObject({ oldStart: 1, oldLines: 5, newStart: 1, newLines: 5 });
+      expect(second).toMatchObject({ oldStart: 15, oldLines: 6, newStart: 15, newLines: 5 });
+    });
+
+    it('should count additions and deletions per hunk', () => {
+      const result = computeDiff('test.txt', original, current);
+      const [first, second] = result.structuredHunks!;
+
+      expect(first.additions).toBe(1);
+      expect(first.deletions).toBe(1);
+      expect(second.additions).toBe(0);
+      expect(second.deletions).toBe(1);
+    });
+
+    it('should share DiffLine objects with the flat list', () => {
+      const result = computeDiff('test.txt', original, current);
+      const fromHunks = result.structuredHunks!.flatMap(h => h.lines);
+      expect(fromHunks).toHaveLength(result.hunks.length);
+      fromHunks.forEach((line, i) => expect(line).toBe(result.hunks[i]));
+    });
+
+    it('should not emit the no-newline marker as a line', () => {
+      const result = computeDiff('test.txt', 'a\nb', 'a\nc');
+      expect(result.hunks.some(h => h.content.includes('No newline'))).toBe(false);
+      expect(result.hunks).toHaveLength(3);
+    });
+
+    it('formatHunkHeader renders unified @@ ranges', () => {
+      const result = computeDiff('test.txt', original, current);
+      expect(formatHunkHeader(result.structuredHunks![1])).toBe('@@ -15,6 +15,5 @@');
+    });
+
+    it('formatFoldSummary falls back to old lines for a deleted file', () => {
+      const result = computeDiff('test.txt', 'a\nb\n', '');
+      expect(formatFoldSummary(result.structuredHunks![0])).toBe('old lines 1–2 +0 -2 · 2 lines folded');
+    });
+
+    it('getHunks infers hunks from line-number gaps for hand-built diffs', () => {
+      const diff: FileDiff = {
+        filePath: 'test.ts',
+        isNewFile: false,
+        additions: 1,
+        deletions: 0,
+        hunks: [
+          { type: 'context', content: 'a', oldLineNumber: 1, newLineNumber: 1 },
+          { type: 'added', content: 'b', newLineNumber: 2 },
+          { type: 'context', content: 'x', oldLineNumber: 10, newLineNumber: 11 },
+        ],
+      };
+
+      const hunks = getHunks(diff);
+      expect(hunks).toHaveLength(2);
+      expect(hunks[0]).toMatchObject({ oldStart: 1, oldLines: 1, newStart: 1, newLines: 2, additions: 1 });
+      expect(hunks[1]).toMatchObject({ oldStart: 10, oldLines: 1, newStart: 11, newLines: 1 });
+    });
+  });
+
+  describe('options', () => {
+    const tenLines = Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+    it('should default to DIFF_CONTEXT_LINES of context', () => {
+      const result = computeDiff('test.txt', tenLines, tenLines.replace('line 5\n', 'line five\n'));
+      const context = result.hunks.filter(h => h.type === 'context');
+      expect(context).toHaveLength(DIFF_CONTEXT_LINES * 2);
+    });
+
+    it('should honor a custom context size', () => {
+      const result = computeDiff('test.txt', tenLines, tenLines.replace('line 5\n', 'line five\n'), { context: 1 });
+      const context = result.hunks.filter(h => h.type === 'context').map(h => h.content);
+      expect(context).toEqual(['line 4', 'line 6']);
+    });
+
+    it('should ignore trailing whitespace', () => {
+      const result = computeDiff('test.txt', 'a\nb\n', 'a  \nb\t\n', { ignoreWhitespace: 'trailing' });
+      expect(result.additions + result.deletions).toBe(0);
+    });
+
+    it('should ignore changes in amount of whitespace but not added whitespace', () => {
+      const amount = computeDiff('test.txt', 'a b\n', 'a    b\n', { ignoreWhitespace: 'amount' });
+      expect(amount.additions).toBe(0);
+
+      const inserted = computeDiff('test.txt', 'ab\n', 'a b\n', { ignoreWhitespace: 'amount' });
+      expect(inserted.additions).toBe(1);
+    });
+
+    it('should ignore all whitespace', () => {
+      const result = computeDiff('test.txt', 'foo(a,b)\n', '  foo( a, b )\n', { ignoreWhitespace: 'all' });
+      expect(result.additions + result.deletions).toBe(0);
+    });
+
+    it('should show current content for context lines when whitespace is ignored', () => {
+      const result = computeDiff('test.txt', 'x\n  a\ny\n', 'x\n    a\nz\n', { ignoreWhitespace: 'amount' });
+      const context = result.hunks.find(h => h.type === 'context' && h.newLineNumber === 2);
+      expect(context?.content).toBe('    a');
+    });
+
+    it('should ignore case', () => {
+      const result = computeDiff('test.txt', 'Hello\n', 'hello\n', { ignoreCase: true });
+      expect(result.additions + result.deletions).toBe(0);
+    });
+
+    it('should ignore CRLF vs LF', () => {
+      const result = computeDiff('test.txt', 'a\r\nb\r\n', 'a\nb\nc\n', { ignoreLineEndings: true });
+      expect(result.additions).toBe(1);
+      expect(result.deletions).toBe(0);
+      expect(result.hunks.every(h => !h.content.includes('\r'))).toBe(true);
+    });
+
+    it('should keep removed line content from the original', () => {
+      const result = computeDiff('test.txt', 'Keep\nOld\n', 'keep\nnew\n', { ignoreCase: true });
+      expect(result.hunks.find(h => h.type === 'removed')?.content).toBe('Old');
+      expect(result.hunks.find(h => h.type === 'added')?.content).toBe('new');
+    });
+  });
+
+  describe('revealed context', () => {
+    // Changes at lines 5 and 25 leave old lines 9..21 hidden between the hunks
+    const original = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+    const current = original.replace('line 5\n', 'FIVE\n').replace('line 25\n', 'extra\nline 25\n');
+
+    it('reports the lines hidden between hunks', () => {
+      const diff = computeDiff('test.ts', original, current);
+      expect(getHiddenLines(diff, 1)).toEqual({ start: 9, end: 21 });
+      expect(getHiddenLines(diff, 0)).toBeUndefined();
+    });
+
+    it('extends the hunk above with lines at the top of the gap', () => {
+      const diff = computeDiff('test.ts', original, current, { reveal: [{ start: 9, end: 11 }] });
+      const [first, second] = getHunks(diff);
+
+      expect(first.lines.slice(-3).map(l => [l.content, l.oldLineNumber, l.newLineNumber])).toEqual([
+        ['line 9', 9, 9],
+        ['line 10', 10, 10],
+        ['line 11', 11, 11],
+      ]);
+      expect(formatHunkHeader(first)).toBe('@@ -2,10 +2,10 @@');
+      expect(second.lines[0].content).toBe('line 22');
+      expect(getHiddenLines(diff, 1)).toEqual({ start: 12, end: 21 });
+    });
+
+    it('extends the hunk below with lines at the bottom of the gap', () => {
+      const diff = computeDiff('test.ts', original, current, { reveal: [{ start: 20, end: 21 }] });
+      const second = getHunks(diff)[1];
+
+      expect(second.lines[0]).toMatchObject({ type: 'context', content: 'line 20', oldLineNumber: 20, newLineNumber: 20 });
+      expect(formatHunkHeader(second)).toBe('@@ -20,8 +20,9 @@');
+      expect(diff.hunks).toEqual(getHunks(diff).flatMap(h => h.lines));
+    });
+
+    it('keeps hunks separate when the whole gap is revealed', () => {
+      const diff = computeDiff('test.ts', original, current, { reveal: [{ start: 9, end: 21 }] });
+      expect(getHunks(diff)).toHaveLength(2);
+      expect(getHiddenLines(diff, 1)).toBeUndefined();
+      expect(diff.additions).toBe(2);
+      expect(diff.deletions).toBe(1);
+    });
+
+    it('ignores revealed lines that do not touch a hunk', () => {
+      const diff = computeDiff('test.ts', original, current, { reveal: [{ start: 15, end: 16 }] });
+      expect(diff.hunks.some(l => l.content === 'line 15')).toBe(false);
+    });
+  });
+
+  describe('computeDiffStats', () => {
+    const cases: Array<[string, string, string]> = [
+      ['unchanged', 'a\nb\n', 'a\nb\n'],
+      ['new file', '', 'a\nb\nc\n'],
+      ['new file without trailing newline', '', 'a\nb'],
+      ['deleted file', 'a\nb\n', ''],
+      ['modified', 'a\nb\nc\nd\n', 'a\nB\nc\nd\ne\n'],
+      ['missing trailing newline', 'a\nb', 'a\nb\n'],
+    ];
+
+    it.each(cases)('matches computeDiff counts (%s)', (_name, original, current) => {
+      const diff = computeDiff('test.txt', original, current);
+      expect(computeDiffStats(original, current)).toEqual({
+        isNewFile: diff.isNewFile,
+        additions: diff.additions,
+        deletions: diff.deletions,
+      });
+    });
+
+    it('applies whitespace options', () => {
+      expect(computeDiffStats('a\nb\n', 'a \nb\n')).toMatchObject({ additions: 1, deletions: 1 });
+      expect(computeDiffStats('a\nb\n', 'a \nb\n', { ignoreWhitespace: 'trailing' })).toMatchObject({ additions: 0, deletions: 0 });
+    });
+  });
+
+  describe('whole-file diffs', () => {
+    it('produces a single hunk numbered from 1 for a new file', () => {
+      const diff = computeDiff('new.txt', '', 'a\nb\nc\n');
+
+      expect(diff.isNewFile).toBe(true);
+      expect(diff.additions).toBe(3);
+      expect(diff.structuredHunks).toEqual([
+        expect.objectContaining({ oldStart: 1, oldLines: 0, newStart: 1, newLines: 3 }),
+      ]);
+      expect(diff.hunks.map(l => [l.type, l.content, l.newLineNumber])).toEqual([
+        ['added', 'a', 1],
+        ['added', 'b', 2],
+        ['added', 'c', 3],
+      ]);
+    });
+
+    it('numbers removed lines by their old line for a deleted file', () => {
+      const diff = computeDiff('gone.txt', 'a\nb', '');
+
+      expect(diff.deletions).toBe(2);
+      expect(diff.hunks.map(l => [l.type, l.content, l.oldLineNumber])).toEqual([
+        ['removed', 'a', 1],
+        ['removed', 'b', 2],
+      ]);
+    });
+  });
 });
@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { DiffState } from '../src/diff-state';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DiffState, DiffStateEvent } from '../src/diff-state';
 
 describe('diff-state', () => {
   let state: DiffState;
@@ -80,6 +80,39 @@ describe('diff-state', () => {
       expect(diff!.deletions).toBe(0);
       expect(diff!.hunks).toHaveLength(0);
     });
+
+    it('should pass diff options through to computeDiff', () => {
+      state.trackFile('test.txt', 'a\nb\n', 'a \nb\n');
+
+      expect(state.getFileDiff('test.txt')!.additions).toBe(1);
+      expect(state.getFileDiff('test.txt', { ignoreWhitespace: 'trailing' })!.additions).toBe(0);
+    });
+  });
+
+  describe('getFileStats', () => {
+    it('should return undefined for untracked file', () => {
+      expect(state.getFileStats('unknown.txt')).toBeUndefined();
+    });
+
+    it('should match the counts of getFileDiff', () => {
+      state.trackFile('test.txt', 'a\nb\n', 'a\nB\nc\n');
+
+      const diff = state.getFileDiff('test.txt')!;
+      expect(state.getFileStats('test.txt')).toEqual({
+        isNewFile: diff.isNewFile,
+        additions: diff.additions,
+        deletions: diff.deletions,
+      });
+    });
+
+    it('should count since a checkpoint', () => {
+      state.trackFile('test.txt', 'a\n', 'a\nb\n');
+      state.checkpoint('turn-1');
+      state.updateFile('test.txt', 'a\nb\nc\n');
+
+      expect(state.getFileStats('test.txt')).toMatchObject({ additions: 2 });
+      expect(state.getFileStats('test.txt', { since: 'turn-1' })).toMatchObject({ additions: 1 });
+    });
   });
 
   describe('getChangedFiles', () => {
@@ -192,6 +225,196 @@ describe('diff-state', () => {
     });
   });
 
+  describe('hunk accept/reject', () => {
+    const original = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+    // Two hunks: line 2 changed, line 18 removed
+    const current = original.replace('line 2\n', 'line 2 changed\n').replace('line 18\n', '');
+
+    beforeEach(() => {
+      state.trackFile('test.txt', original, current);
+    });
+
+    it('acceptHunk folds one hunk into the baseline', () => {
+      expect(state.acceptHunk('test.txt', 0)).toBe(true);
+
+      const diff = state.getFileDiff('test.txt')!;
+      expect(diff.structuredHunks).toHaveLength(1);
+      expect(diff.hunks.find(h => h.type === 'removed')?.content).toBe('line 18');
+      expect(state.toJSON().files[0].currentContent).toBe(current);
+    });
+
+    it('accepting every hunk leaves no changes', () => {
+      state.acceptHunk('test.txt', 1);
+      state.acceptHunk('test.txt', 0);
+      expect(state.getChangedFiles()).toEqual([]);
+    });
+
+    it('rejectHunk reverts one hunk and returns the new content', () => {
+      const content = state.rejectHunk('test.txt', 1);
+
+      expect(content).toBe(original.replace('line 2\n', 'line 2 changed\n'));
+      const diff = state.getFileDiff('test.txt')!;
+      expect(diff.structuredHunks).toHaveLength(1);
+      expect(diff.hunks.find(h => h.type === 'added')?.content).toBe('line 2 changed');
+    });
+
+    it('rejecting every hunk restores the original', () => {
+      state.rejectHunk('test.txt', 0);
+      expect(state.rejectHunk('test.txt', 0)).toBe(original);
+      expect(state.getChangedFiles()).toEqual([]);
+    });
+
+    it('handles a missing newline at end of file', () => {
+      state.trackFile('eof.txt', 'a\nb', 'a\nb\n');
+      expect(state.rejectHunk('eof.txt', 0)).toBe('a\nb');
+    });
+
+    it('handles pure insertions with zero context', () => {
+      state.trackFile('ins.txt', 'x\ny\n', 'x\nnew\ny\n');
+      expect(state.rejectHunk('ins.txt', 0, { context: 0 })).toBe('x\ny\n');
+    });
+
+    it('keeps ignored whitespace differences on context lines when rejecting', () => {
+      state.trackFile('ws.txt', 'a  \nb\nc\n', 'a\nB\nc\n');
+      expect(state.rejectHunk('ws.txt', 0, { ignoreWhitespace: 'trailing' })).toBe('a\nb\nc\n');
+    });
+
+    it('keeps ignored whitespace differences on context lines when accepting', () => {
+      state.trackFile('ws.txt', 'a  \nb\nc\n', 'a\nB\nc\n');
+      expect(state.acceptHunk('ws.txt', 0, { ignoreWhitespace: 'trailing' })).toBe(true);
+      expect(state.toJSON().files.find(f => f.path === 'ws.txt')?.originalContent).toBe('a  \nB\nc\n');
+    });
+
+    it('handles pure deletions with zero context', () => {
+      state.trackFile('del.txt', 'x\nold\ny\n', 'x\ny\n');
+      expect(state.rejectHunk('del.txt', 0, { context: 0 })).toBe('x\nold\ny\n');
+      state.trackFile('del2.txt', 'x\nold\ny\n', 'x\ny\n');
+      expect(state.acceptHunk('del2.txt', 0, { context: 0 })).toBe(true);
+      expect(state.getChangedFiles()).not.toContain('del2.txt');
+    });
+
+    it('returns false/undefined for unknown files or hunks', () => {
+      expect(state.acceptHunk('unknown.txt', 0)).toBe(false);
+      expect(state.acceptHunk('test.txt', 5)).toBe(false);
+      expect(state.rejectHunk('unknown.txt', 0)).toBeUndefined();
+      expect(state.rejectHunk('test.txt', -1)).toBeUndefined();
+    });
+  });
+
+  describe('revertLines', () => {
+    const original = 'a\nb\nc\nd\n';
+    const current = 'a\nB\nC\nd\ne\n';
+
+    beforeEach(() => {
+      state.trackFile('test.txt', original, current);
+    });
+
+    const linesOf = (type: string, contents: string[]) =>
+      state.getFileDiff('test.txt')!.hunks.filter(h => h.type === type && contents.includes(h.content));
+
+    it('restores selected removed lines and drops selected added lines', () => {
+      const selected = [...linesOf('removed', ['b']), ...linesOf('added', ['B'])];
+      expect(state.revertLines('test.txt', selected)).toBe('a\nb\nC\nd\ne\n');
+    });
+
+    it('can drop added lines only', () => {
+      expect(state.revertLines('test.txt', linesOf('added', ['e']))).toBe('a\nB\nC\nd\n');
+    });
+
+    it('can restore removed lines only, keeping the additions', () => {
+      expect(state.revertLines('test.txt', linesOf('removed', ['c']))).toBe('a\nc\nB\nC\nd\ne\n');
+    });
+
+    it('reverting every changed line restores the original', () => {
+      const diff = state.getFileDiff('test.txt')!;
+      expect(state.revertLines('test.txt', diff.hunks)).toBe(original);
+      expect(state.getChangedFiles()).toEqual([]);
+    });
+
+    it('ignores context lines', () => {
+      expect(state.revertLines('test.txt', linesOf('context', ['a', 'd']))).toBe(current);
+    });
+
+    it('keeps line breaks when restoring a line that had no newline at EOF', () => {
+      state.trackFile('eof.txt', 'a\nb', 'a\nb\nc\n');
+      const removed = state.getFileDiff('eof.txt')!.hunks.filter(h => h.type === 'removed');
+      expect(state.revertLines('eof.txt', removed)).toBe('a\nb\nb\nc\n');
+    });
+
+    it('keeps a missing newline at EOF when the last line is dropped', () => {
+      state.trackFile('eof.txt', 'a\nb\nc\n', 'a\nB\nc\nd');
+      const added = state.getFileDiff('eof.txt')!.hunks.filter(h => h.type === 'added');
+      expect(state.revertLines('eof.txt', added.filter(h => h.content === 'd'))).toBe('a\nB\nc');
+    });
+
+    it('keeps a missing newline at EOF when reverting lines above it', () => {
+      state.trackFile('eof.txt', 'a\nb\nc\n', 'a\nB\nc\nd');
+      const changed = state.getFileDiff('eof.txt')!.hunks.filter(h => h.content.toLowerCase() === 'b');
+      expect(state.revertLines('eof.txt', changed)).toBe('a\nb\nc\nd');
+    });
+
+    it('returns undefined for untracked files', () => {
+      expect(state.revertLines('unknown.txt', [])).toBeUndefined();
+    });
+  });
+
+  describe('history', () => {
+    it('records original and current as the first versions', () => {
+      state.trackFile('test.txt', 'v0', 'v1', 'call-1');
+
+      const history = state.getHistory('test.txt');
+      expect(history.map(v => v.content)).toEqual(['v0', 'v1']);
+      expect(history[0].label).toBeUndefined();
+      expect(history[1].label).toBe('call-1');
+      expect(typeof history[1].timestamp).toBe('number');
+    });
+
+    it('appends a version on every update with new content', () => {
+      state.trackFile('test.txt', 'v0', 'v1');
+      state.updateFile('test.txt', 'v2', 'turn-2');
+      state.updateFile('test.txt', 'v2');
+      state.trackFile('test.txt', 'ignored', 'v3', 'turn-3');
+
+      const history = state.getHistory('test.txt');
+      expect(history.map(v => v.content)).toEqual(['v0', 'v1', 'v2', 'v3']);
+      expect(history.map(v => v.label)).toEqual([undefined, undefined, 'turn-2', 'turn-3']);
+    });
+
+    it('records reverts as new versions', () => {
+      state.trackFile('test.txt', 'a\n', 'b\n');
+      state.rejectHunk('test.txt', 0);
+      expect(state.getHistory('test.txt').map(v => v.content)).toEqual(['a\n', 'b\n', 'a\n']);
+    });
+
+    it('keeps history after dismiss', () => {
+      state.trackFile('test.txt', 'v0', 'v1');
+      state.dismissFile('test.txt');
+      expect(state.getHistory('test.txt')).toHaveLength(2);
+    });
+
+    it('returns an empty history for untracked files', () => {
+      expect(state.getHistory('unknown.txt')).toEqual([]);
+    });
+
+    it('diffVersions diffs any two versions', () => {
+      state.trackFile('test.txt', 'a\n', 'a\nb\n');
+      state.updateFile('test.txt', 'a\nb\nc\n');
+
+      const lastStep = state.diffVersions('test.txt', 1, 2)!;
+      expect(lastStep.additions).toBe(1);
+      expect(lastStep.hunks.find(h => h.type === 'added')?.content).toBe('c');
+
+      const backwards = state.diffVersions('test.txt', 2, 0)!;
+      expect(backwards.deletions).toBe(2);
+    });
+
+    it('diffVersions returns undefined for bad indices or untracked files', () => {
+      state.trackFile('test.txt', 'a', 'b');
+      expect(state.diffVersions('test.txt', 0, 5)).toBeUndefined();
+      expect(state.diffVersions('unknown.txt', 0, 1)).toBeUndefined();
+    });
+  });
+
   describe('pendingCount', () => {
     it('should be 0 initially', () => {
       expect(state.pendingCount).toBe(0);
@@ -229,6 +452,61 @@ describe('diff-state', () => {
     });
   });
 
+  describe('diff cache', () => {
+    it('should return the same diff until the file changes', () => {
+      state.trackFile('test.txt', 'a\n', 'b\n');
+      const diff = state.getFileDiff('test.txt');
+      expect(state.getFileDiff('test.txt')).toBe(diff);
+
+      state.updateFile('test.txt', 'b\nc\n');
+      const updated = state.getFileDiff('test.txt');
+      expect(updated).not.toBe(diff);
+      expect(updated!.additions).toBe(2);
+    });
+
+    it('should cache per options and checkpoint', () => {
+      state.trackFile('test.txt', 'a\n', 'a \n');
+      state.checkpoint('turn-1');
+
+      const diff = state.getFileDiff('test.txt');
+      const ignoring = state.getFileDiff('test.txt', { ignoreWhitespace: 'trailing' });
+      expect(ignoring).not.toBe(diff);
+      expect(ignoring!.additions).toBe(0);
+      expect(state.getFileDiff('test.txt', { since: 'turn-1' })!.additions).toBe(0);
+      expect(state.getFileDiff('test.txt')).toBe(diff);
+    });
+
+    it('should drop cached diffs on dismiss and hunk accept/reject', () => {
+      state.trackFile('test.txt', 'a\n', 'b\n');
+      const diff = state.getFileDiff('test.txt');
+
+      state.dismissFile('test.txt');
+      expect(state.getFileDiff('test.txt')).not.toBe(diff);
+      expect(state.getFileDiff('test.txt')!.hunks).toHaveLength(0);
+
+      state.updateFile('test.txt', 'c\n');
+      state.rejectHunk('test.txt', 0);
+      expect(state.getFileDiff('test.txt')!.hunks).toHaveLength(0);
+    });
+
+    it('should not mix up files with identical contents', () => {
+      state.trackFile('one.txt', 'a\n', 'b\n');
+      state.trackFile('two.txt', 'a\n', 'b\n');
+
+      expect(state.getFileDiff('one.txt')!.filePath).toBe('one.txt');
+      expect(state.getFileDiff('two.txt')!.filePath).toBe('two.txt');
+      state.dismissFile('one.txt');
+      expect(state.getChangedFiles()).toEqual(['two.txt']);
+    });
+
+    it('should take counts from a cached diff', () => {
+      state.trackFile('test.txt', 'a\n', 'b\nc\n');
+      state.getFileDiff('test.txt');
+
+      expect(state.getFileStats('test.txt')).toEqual({ isNewFile: false, additions: 2, deletions: 1 });
+    });
+  });
+
   describe('complex scenarios', () => {
     it('should handle multiple files with various operations', () => {
       // Track several files
@@ -257,6 +535,137 @@ describe('diff-state', () => {
     });
   });
 
+  describe('events', () => {
+    function record(): DiffStateEvent[] {
+      const events: DiffStateEvent[] = [];
+      state.on('track', e => events.push(e));
+      state.on('dismiss', e => events.push(e));
+      state.on('change', e => events.push(e));
+      return events;
+    }
+
+    it('should emit track then change for a newly tracked file', () => {
+      const events = record();
+      state.trackFile('test.txt', 'a', 'b');
+
+      expect(events).toEqual([
+        { type: 'track', paths: ['test.txt'] },
+        { type: 'change', paths: ['test.txt'] },
+      ]);
+    });
+
+    it('should emit only change when an already tracked file is tracked again', () => {
+      state.trackFile('test.txt', 'a', 'b');
+      const events = record();
+      state.trackFile('test.txt', 'a', 'c');
+
+      expect(events).toEqual([{ type: 'change', paths: ['test.txt'] }]);
+    });
+
+    it('should emit change on update only when content changes', () => {
+      state.trackFile('test.txt', 'a', 'b');
+      const events = record();
+
+      state.updateFile('test.txt', 'b');
+      state.updateFile('untracked.txt', 'x');
+      expect(events).toEqual([]);
+
+      state.updateFile('test.txt', 'c');
+      expect(events).toEqual([{ type: 'change', paths: ['test.txt'] }]);
+    });
+
+    it('should emit dismiss then change on dismissFile', () => {
+      state.trackFile('test.txt', 'a', 'b');
+      const events = record();
+      state.dismissFile('test.txt');
+      state.dismissFile('untracked.txt');
+
+      expect(events.map(e => e.type)).toEqual(['dismiss', 'change']);
+    });
+
+    it('should emit change for hunk and line operations', () => {
+      state.trackFile('test.txt', 'a\nb\n', 'a\nB\n');
+      const listener = vi.fn();
+      state.on('change', listener);
+
+      state.rejectHunk('test.txt', 0);
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      state.updateFile('test.txt', 'a\nB\n');
+      state.acceptHunk('test.txt', 0);
+      expect(listener).toHaveBeenCalledTimes(3);
+      expect(listener).toHaveBeenLastCalledWith({ type: 'change', paths: ['test.txt'] });
+    });
+
+    it('should stop calling a listener after unsubscribe', () => {
+      const listener = vi.fn();
+      const unsubscribe = state.on('change', listener);
+      unsubscribe();
+
+      state.trackFile('test.txt', 'a', 'b');
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should keep going when a listener throws', () => {
+      const listener = vi.fn();
+      state.on('change', () => {
+        throw new Error('listener failed');
+      });
+      state.on('change', listener);
+
+      expect(() => state.trackFile('test.txt', 'a', 'b')).not.toThrow();
+      expect(state.isTracked('test.txt')).toBe(true);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('checkpoints', () => {
+    it('should diff against the content at the checkpoint', () => {
+      state.trackFile('test.txt', 'a\n', 'a\nb\n');
+      state.checkpoint('turn-1');
+      state.updateFile('test.txt', 'a\nb\nc\n');
+
+      const diff = state.getFileDiff('test.txt', { since: 'turn-1' });
+      expect(diff?.additions).toBe(1);
+      expect(diff?.hunks.filter(l => l.type === 'added').map(l => l.content)).toEqual(['c']);
+      expect(state.getFileDiff('test.txt')?.additions).toBe(2);
+    });
+
+    it('should only list files changed since the checkpoint', () => {
+      state.trackFile('file1.txt', 'a', 'b');
+      state.trackFile('file2.txt', 'x', 'y');
+      state.checkpoint('turn-1');
+      state.updateFile('file2.txt', 'z');
+
+      expect(state.getChangedFiles({ since: 'turn-1' })).toEqual(['file2.txt']);
+      expect(state.getChangedFiles()).toHaveLength(2);
+    });
+
+    it('should compare files tracked after the checkpoint against their original', () => {
+      state.checkpoint('turn-1');
+      state.trackFile('new.txt', '', 'hello\n');
+
+      expect(state.getChangedFiles({ since: 'turn-1' })).toEqual(['new.txt']);
+      expect(state.getFileDiff('new.txt', { since: 'turn-1' })?.isNewFile).toBe(true);
+    });
+
+    it('should move a reused label to the latest point', () => {
+      state.trackFile('test.txt', 'a', 'b');
+      state.checkpoint('turn');
+      state.checkpoint('other');
+      state.updateFile('test.txt', 'c');
+      state.checkpoint('turn');
+
+      expect(state.getCheckpoints()).toEqual(['other', 'turn']);
+      expect(state.getChangedFiles({ since: 'turn' })).toEqual([]);
+    });
+
+    it('should fall back to the baseline for unknown labels', () => {
+      state.trackFile('test.txt', 'a', 'b');
+      expect(state.getChangedFiles({ since: 'missing' })).toEqual(['test.txt']);
+    });
+  });
+
   describe('serialization', () => {
     describe('toJSON', () => {
       it('should serialize empty state', () => {
@@ -278,11 +687,19 @@ describe('diff-state', () => {
           path: 'file1.txt',
           originalContent: 'original1',
           currentContent: 'current1',
+          versions: [
+            { content: 'original1', timestamp: expect.any(Number) },
+            { content: 'current1', timestamp: expect.any(Number) },
+          ],
         });
         expect(json.files[1]).toEqual({
           path: 'file2.txt',
           originalContent: 'original2',
           currentContent: 'current2',
+          versions: [
+            { content: 'original2', timestamp: expect.any(Number) },
+            { content: 'current2', timestamp: expect.any(Number) },
+          ],
         });
       });
 
@@ -364,6 +781,70 @@ describe('diff-state', () => {
       });
     });
 
+    describe('history', () => {
+      it('should serialize versions when there are intermediate edits', () => {
+        state.trackFile('test.txt', 'v0', 'v1');
+        state.updateFile('test.txt', 'v2', 'turn-2');
+
+        const json = state.toJSON();
+        expect(json.files[0].versions?.map(v => v.content)).toEqual(['v0', 'v1', 'v2']);
+
+        const restored = DiffState.fromJSON(json);
+        expect(restored.getHistory('test.txt')).toEqual(state.getHistory('test.txt'));
+      });
+
+      it('should keep labels and timestamps of a two-version history', () => {
+        state.trackFile('test.txt', 'v0', 'v1', 'turn-1');
+
+        const json = state.toJSON();
+        expect(json.files[0].versions).toHaveLength(2);
+        expect(DiffState.fromJSON(json).getHistory('test.txt')).toEqual(state.getHistory('test.txt'));
+      });
+
+      it('should return a copy that does not share state', () => {
+        state.trackFile('test.txt', 'v0', 'v1');
+        state.checkpoint('turn-1');
+
+        const json = state.toJSON();
+        json.files[0].versions![1].content = 'changed';
+        json.checkpoints![0].versions['test.txt'] = 0;
+        json.checkpoints!.pop();
+
+        expect(state.getHistory('test.txt').map(v => v.content)).toEqual(['v0', 'v1']);
+        expect(state.getCheckpoints()).toEqual(['turn-1']);
+        expect(state.getFileDiff('test.txt', { since: 'turn-1' })?.hunks).toHaveLength(0);
+      });
+
+      it('should not share state with the data it was restored from', () => {
+        state.trackFile('test.txt', 'v0', 'v1');
+        state.checkpoint('turn-1');
+        const json = state.toJSON();
+        const restored = DiffState.fromJSON(json);
+
+        json.checkpoints![0].versions['test.txt'] = 0;
+        expect(restored.getFileDiff('test.txt', { since: 'turn-1' })?.hunks).toHaveLength(0);
+      });
+
+      it('should round-trip checkpoints', () => {
+        state.trackFile('test.txt', 'v0', 'v1');
+        state.checkpoint('turn-1');
+        state.updateFile('test.txt', 'v2');
+
+        const restored = DiffState.fromJSON(state.toJSON());
+        expect(restored.getCheckpoints()).toEqual(['turn-1']);
+        expect(restored.getFileDiff('test.txt', { since: 'turn-1' })?.hunks.map(l => l.content))
+          .toEqual(state.getFileDiff('test.txt', { since: 'turn-1' })?.hunks.map(l => l.content));
+      });
+
+      it('should rebuild original → current history when versions are absent', () => {
+        const restored = DiffState.fromJSON({
+          version: 1,
+          files: [{ path: 'test.txt', originalContent: 'a', currentContent: 'b' }],
+        });
+        expect(restored.getHistory('test.txt').map(v => v.content)).toEqual(['a', 'b']);
+      });
+    });
+
     describe('round-trip', () => {
       it('should preserve all data through round-trip', () => {
         state.trackFile('file1.txt', 'original1', 'current1');
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { DARK_DIFF_THEME, DIFF_THEMES, diffThemeFromRoles, hexColor } from '../src/diff-theme';
+
+describe('hexColor', () => {
+  it('builds truecolor foreground and background escapes', () => {
+    expect(hexColor('#1e3a2f', 'bg')).toBe('\x1b[48;2;30;58;47m');
+    expect(hexColor('FF0000', 'fg')).toBe('\x1b[38;2;255;0;0m');
+  });
+
+  it('returns an empty sequence for invalid colors', () => {
+    expect(hexColor('red', 'fg')).toBe('');
+  });
+});
+
+describe('diffThemeFromRoles', () => {
+  const codes: Record<string, string> = {
+    toolDiffAdded: '\x1b[38;5;71m',
+    toolDiffRemoved: '\x1b[38;5;167m',
+    accent: '\x1b[38;5;110m',
+  };
+
+  it('takes colors from the theme roles it has', () => {
+    const theme = diffThemeFromRoles({
+      fg: (role, text) => (codes[role] ? `${codes[role]}${text}\x1b[39m` : text),
+      bg: (_role, text) => `\x1b[48;5;237m${text}\x1b[49m`,
+    });
+
+    expect(theme.addedFg).toBe('\x1b[38;5;71m');
+    expect(theme.removedFg).toBe('\x1b[38;5;167m');
+    expect(theme.separator).toBe('\x1b[38;5;110m');
+    expect(theme.cursorBg).toBe('\x1b[48;5;237m');
+    expect(theme.gutter).toBe(DARK_DIFF_THEME.gutter);
+    expect(theme.addedBg).toBe(DARK_DIFF_THEME.addedBg);
+  });
+
+  it('keeps the base for uncolored or unknown roles', () => {
+    const throwing = diffThemeFromRoles({
+      fg: () => {
+        throw new Error('Unknown theme color');
+      },
+    }, DIFF_THEMES.light);
+    expect(throwing).toEqual(DIFF_THEMES.light);
+    expect(diffThemeFromRoles({ fg: (_role, text) => text })).toEqual(DARK_DIFF_THEME);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { DiffViewController } from '../src/diff-view-controller';
-import type { FileDiff } from '../src/diff-engine';
+import { computeDiff, type FileDiff } from '../src/diff-engine';
 
 describe('DiffViewController', () => {
   let simpleDiff: FileDiff;
@@ -297,6 +297,73 @@ describe('DiffViewController', () => {
     });
   });
 
+  describe('updateDiff', () => {
+    const lines = (n: number, edit: (i: number) => string = i => `line ${i}`) =>
+      Array.from({ length: n }, (_, i) => edit(i + 1)).join('\n') + '\n';
+    const original = lines(40);
+    const full = { context: Infinity };
+
+    it('keeps the cursor on the same line when lines are inserted above', () => {
+      const controller = new DiffViewController(
+        computeDiff('a.ts', original, lines(40, i => (i === 30 ? 'changed' : `line ${i}`)), full)
+      );
+      controller.setCursor(19);
+      expect(controller.getCursorDiffLine()?.content).toBe('line 20');
+
+      controller.updateDiff(
+        computeDiff('a.ts', original, 'first\n' + lines(40, i => (i === 30 ? 'changed' : `line ${i}`)), full)
+      );
+      expect(controller.getCursorDiffLine()).toMatchObject({ content: 'line 20', newLineNumber: 21 });
+    });
+
+    it('keeps an added line on the same new line number', () => {
+      const controller = new DiffViewController(
+        computeDiff('a.ts', original, lines(40, i => (i === 30 ? 'changed' : `line ${i}`)), full)
+      );
+      controller.setCursor(30);
+      expect(controller.getCursorDiffLine()).toMatchObject({ type: 'added', content: 'changed' });
+
+      controller.updateDiff(
+        computeDiff('a.ts', original, lines(40, i => (i === 30 ? 'changed again' : `line ${i}`)), full)
+      );
+      expect(controller.getCursorDiffLine()).toMatchObject({ type: 'added', content: 'changed again' });
+    });
+
+    it('moves to the nearest line when the cursor line disappears', () => {
+      const controller = new DiffViewController(
+        computeDiff('a.ts', 'a\nb\nc\n', 'a\nb\nc\nd\ne\n')
+      );
+      controller.setCursor(4);
+      expect(controller.getCursorDiffLine()?.content).toBe('e');
+
+      controller.updateDiff(computeDiff('a.ts', 'a\nb\nc\n', 'a\nb\nc\nd\n'));
+      expect(controller.getCursorDiffLine()?.content).toBe('d');
+    });
+
+    it('anchors removed lines by old line number', () => {
+      const controller = new DiffViewController(
+        computeDiff('a.ts', 'a\nb\nc\n', 'a\nc\n')
+      );
+      controller.setCursor(1);
+      expect(controller.getCursorDiffLine()?.type).toBe('removed');
+
+      controller.updateDiff(computeDiff('a.ts', 'a\nb\nc\n', 'x\na\nc\n'));
+      expect(controller.getCursorDiffLine()).toMatchObject({ type: 'removed', content: 'b' });
+    });
+
+    it('keeps the cursor at the same screen row', () => {
+      const controller = new DiffViewController(computeDiff('a.ts', '', lines(60)));
+      controller.setCursor(30);
+      controller.render(80, 10);
+      const screenRow = controller.cursorLine - controller.scrollOffset;
+
+      controller.updateDiff(computeDiff('a.ts', '', 'first\n' + lines(60)));
+      controller.render(80, 10);
+      expect(controller.getCursorDiffLine()?.content).toBe('line 30');
+      expect(controller.cursorLine - controller.scrollOffset).toBe(screenRow);
+    });
+  });
+
   describe('Syntax highlighting', () => {
     it('passes highlightFn to inline view', () => {
       const calls: string[] = [];
@@ -317,12 +384,275 @@ describe('DiffViewController', () => {
       
       const controller = new DiffViewController(diff, highlightFn);
       
-      // highlightFn should have been called during construction for inline view
-      expect(calls.length).toBeGreaterThan(0);
+      // Lines are highlighted lazily, when first rendered
+      expect(calls).toHaveLength(0);
       
       // Test inline mode rendering
       const inlineLines = controller.render(80, 10);
       expect(inlineLines[0]).toContain('HIGHLIGHTED:const x = 1;');
     });
   });
+
+  describe('getCursorHunkIndex', () => {
+    it('returns the hunk containing the cursor, counting separators as the next hunk', () => {
+      const original = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+      const current = original.replace('line 2\n', 'line 2 changed\n').replace('line 18\n', '');
+      const controller = new DiffViewController(computeDiff('test.txt', original, current));
+
+      expect(controller.getCursorHunkIndex()).toBe(0);
+
+      const separator = Array.from({ length: controller.totalLines }, (_, i) => i)
+        .find(i => controller.isSeparatorLine(i))!;
+      controller.setCursor(separator - 1);
+      expect(controller.getCursorHunkIndex()).toBe(0);
+      controller.setCursor(separator);
+      expect(controller.getCursorHunkIndex()).toBe(1);
+      controller.scrollToBottom();
+      expect(controller.getCursorHunkIndex()).toBe(1);
+    });
+
+    it('returns -1 for an empty diff', () => {
+      const controller = new DiffViewController({ ...simpleDiff, hunks: [] });
+      expect(controller.getCursorHunkIndex()).toBe(-1);
+    });
+  });
+
+  describe('Layout', () => {
+    it('switches to side-by-side at SIDE_BY_SIDE_MIN_WIDTH', () => {
+      const controller = new DiffViewController(simpleDiff);
+
+      controller.render(119, 10);
+      expect(controller.layout).toBe('inline');
+
+      const lines = controller.render(120, 10);
+      expect(controller.layout).toBe('sideBySide');
+      expect(lines.some(line => line.includes('│'))).toBe(true);
+      // Paired removed/added row
+      expect(controller.totalLines).toBe(4);
+    });
+
+    it('toggleLayout overrides the width-based choice', () => {
+      const controller = new DiffViewController(simpleDiff);
+
+      controller.toggleLayout();
+      controller.render(80, 10);
+      expect(controller.layout).toBe('sideBySide');
+
+      controller.toggleLayout();
+      controller.render(200, 10);
+      expect(controller.layout).toBe('inline');
+    });
+
+    it('setLayout(undefined) returns to automatic layout', () => {
+      const controller = new DiffViewController(simpleDiff);
+      controller.setLayout('inline');
+      controller.setLayout(undefined);
+      controller.render(150, 10);
+      expect(controller.layout).toBe('sideBySide');
+    });
+
+    it('keeps the cursor on the same DiffLine when switching', () => {
+      const controller = new DiffViewController(simpleDiff);
+      controller.setCursor(3); // 'line 3 new' in inline view
+
+      controller.setLayout('sideBySide');
+      expect(controller.cursorLine).toBe(2);
+      expect(controller.getCursorDiffLine()?.content).toBe('line 3 new');
+
+      controller.setLayout('inline');
+      expect(controller.cursorLine).toBe(3);
+    });
+  });
+
+  describe('View state', () => {
+    it('includes the active layout', () => {
+      const controller = new DiffViewController(simpleDiff);
+      controller.setLayout('sideBySide');
+      controller.setCursor(2);
+      expect(controller.getViewState()).toEqual({ cursorLine: 2, scrollOffset: 0, layout: 'sideBySide' });
+    });
+
+    it('carries a restored position over to the rendered layout', () => {
+      const controller = new DiffViewController(simpleDiff);
+      controller.setViewState({ cursorLine: 2, scrollOffset: 0, layout: 'sideBySide' });
+      expect(controller.getCursorDiffLine()?.content).toBe('line 3 new');
+
+      // Narrow render switches to inline on the same DiffLine
+      controller.render(80, 10);
+      expect(controller.layout).toBe('inline');
+      expect(controller.getCursorDiffLine()?.content).toBe('line 3 new');
+    });
+  });
+
+  describe('Change block navigation', () => {
+    const diff = () => computeDiff(
+      'test.ts',
+      'a\nb\nc\nd\ne\nf\ng\nh\ni\nj\nk\nl\n',
+      'a\nB\nc\nd\ne\nf\ng\nh\ni\nj\nK\nl\n',
+    );
+
+    it('jumps forward and back between block starts', () => {
+      const controller = new DiffViewController(diff());
+      const [first, second] = controller.getChangeBlockStarts();
+
+      expect(controller.jumpToChangeBlock(1)).toBe(true);
+      expect(controller.cursorLine).toBe(first);
+      expect(controller.jumpToChangeBlock(1)).toBe(true);
+      expect(controller.cursorLine).toBe(second);
+      expect(controller.jumpToChangeBlock(-1)).toBe(true);
+      expect(controller.cursorLine).toBe(first);
+    });
+
+    it('returns false and keeps the cursor at the ends', () => {
+      const controller = new DiffViewController(diff());
+      const starts = controller.getChangeBlockStarts();
+      controller.setCursor(starts[starts.length - 1]);
+
+      expect(controller.jumpToChangeBlock(1)).toBe(false);
+      expect(controller.cursorLine).toBe(starts[starts.length - 1]);
+    });
+
+    it('counts @@ hunks', () => {
+      expect(new DiffViewController(diff()).hunkCount).toBe(2);
+      expect(new DiffViewController(simpleDiff).hunkCount).toBe(1);
+    });
+  });
+
+  describe('Search', () => {
+    it('jumps between matching lines', () => {
+      const controller = new DiffViewController(simpleDiff);
+      controller.setSearch(/line [24]/g);
+
+      expect(controller.jumpToSearchMatch(1)).toBe(true);
+      expect(controller.cursorLine).toBe(1);
+      controller.setCursor(4);
+      expect(controller.jumpToSearchMatch(1)).toBe(false);
+      expect(controller.jumpToSearchMatch(-1)).toBe(true);
+      expect(controller.cursorLine).toBe(2);
+    });
+
+    it('highlights in the side-by-side layout too', () => {
+      const controller = new DiffViewController(simpleDiff);
+      controller.setLayout('sideBySide');
+      controller.setSearch(/old/g);
+
+      expect(controller.getSearchMatchLines()).toEqual([1]);
+      expect(controller.render(120, 10)[1]).toContain('\x1b[7mold\x1b[27m');
+    });
+  });
+
+  describe('updateDiff on a separator', () => {
+    it('keeps the cursor on the separator of the same hunk', () => {
+      const original = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+      const current = original.replace('line 5\n', 'FIVE\n').replace('line 25\n', 'TWENTY-FIVE\n');
+      const controller = new DiffViewController(computeDiff('a.ts', original, current));
+      const separator = [...Array(controller.totalLines).keys()].find(i => controller.isSeparatorLine(i))!;
+      controller.setCursor(separator);
+
+      controller.updateDiff(computeDiff('a.ts', original, current, { reveal: [{ start: 9, end: 13 }] }));
+      expect(controller.cursorLine).toBe(separator + 5);
+      expect(controller.isSeparatorLine(controller.cursorLine)).toBe(true);
+    });
+  });
+
+  describe('Folding', () => {
+    const original = 'a\nb\nc\nd\ne\nf\ng\nh\ni\nj\nk\nl\n';
+    const current = original.replace('b', 'B').replace('k', 'K');
+
+    it('toggles the hunk under the cursor in both layouts', () => {
+      const controller = new DiffViewController(computeDiff('a.ts', original, current));
+      controller.setCursor(2);
+
+      controller.toggleCursorFold();
+      expect(controller.getFoldedHunks()).toEqual([0]);
+      expect(controller.isFoldLine(controller.cursorLine)).toBe(true);
+
+      controller.setLayout('sideBySide');
+      expect(controller.getFoldedHunks()).toEqual([0]);
+      expect(controller.isFoldLine(controller.cursorLine)).toBe(true);
+
+      controller.toggleCursorFold();
+      expect(controller.getFoldedHunks()).toEqual([]);
+    });
+
+    it('folds and unfolds everything', () => {
+      const controller = new DiffViewController(computeDiff('a.ts', original, current));
+      controller.foldAll();
+      expect(controller.getFoldedHunks()).toEqual([0, 1]);
+      expect(controller.totalLines).toBe(3);
+      controller.unfoldAll();
+      expect(controller.getFoldedHunks()).toEqual([]);
+    });
+
+    it('keeps folds and a cursor on a fold row across updateDiff', () => {
+      const controller = new DiffViewController(computeDiff('a.ts', original, current));
+      controller.scrollToBottom();
+      controller.setCursorFold(true);
+
+      controller.updateDiff(computeDiff('a.ts', original, current.replace('K', 'KK')));
+      expect(controller.getFoldedHunks()).toEqual([1]);
+      expect(controller.isFoldLine(controller.cursorLine)).toBe(true);
+    });
+
+    describe('across updateDiff with hunks added or removed', () => {
+      const long = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+      const edited = long.replace('line 2\n', 'line two\n').replace('line 25\n', 'line twenty-five\n');
+
+      it('keeps a fold on its hunk when a hunk is inserted above it', () => {
+        const controller = new DiffViewController(computeDiff('a.ts', long, edited));
+        controller.setFoldedHunks([1]);
+
+        controller.updateDiff(computeDiff('a.ts', long, edited.replace('line 13\n', 'line thirteen\n')));
+        expect(controller.getFoldedHunks()).toEqual([2]);
+      });
+
+      it('keeps a fold on its hunk when lines are added above it', () => {
+        const controller = new DiffViewController(computeDiff('a.ts', long, edited));
+        controller.setFoldedHunks([1]);
+
+        controller.updateDiff(computeDiff('a.ts', long, edited.replace('line 13\n', 'line 13\nextra\nextra\n')));
+        expect(controller.getFoldedHunks()).toEqual([2]);
+      });
+
+      it('drops the fold of a hunk that is gone', () => {
+        const controller = new DiffViewController(computeDiff('a.ts', long, edited));
+        controller.setFoldedHunks([0]);
+
+        controller.updateDiff(computeDiff('a.ts', long, edited.replace('line two\n', 'line 2\n')));
+        expect(controller.getFoldedHunks()).toEqual([]);
+      });
+    });
+  });
+
+  describe('Wrapping', () => {
+    it('wraps both layouts and counts display rows', () => {
+      const long = 'word '.repeat(40);
+      const controller = new DiffViewController(computeDiff('a.ts', 'a\n', `${long}\n`));
+      controller.render(60, 20);
+      const lines = controller.totalRows;
+
+      controller.setWrap(true);
+      expect(controller.wrap).toBe(true);
+      controller.render(60, 20);
+      expect(controller.totalRows).toBeGreaterThan(lines);
+
+      controller.setLayout('sideBySide');
+      controller.render(60, 20);
+      expect(controller.totalRows).toBeGreaterThan(controller.totalLines);
+    });
+  });
+
+  describe('Horizontal scrolling', () => {
+    it('pans both layouts and never goes negative', () => {
+      const controller = new DiffViewController(computeDiff('a.ts', 'a\n', `${'long '.repeat(30)}\n`));
+      controller.render(60, 20);
+
+      controller.scrollRight(8);
+      expect(controller.columnOffset).toBe(8);
+      controller.setLayout('sideBySide');
+      expect(controller.columnOffset).toBe(8);
+      controller.scrollLeft(20);
+      expect(controller.columnOffset).toBe(0);
+    });
+  });
 });
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { InlineDiffView } from '../src/inline-view';
-import type { FileDiff, DiffLine } from '../src/diff-engine';
+import { computeDiff, type FileDiff, type DiffLine } from '../src/diff-engine';
+import { DIFF_THEMES, hexColor } from '../src/diff-theme';
 
 describe('InlineDiffView', () => {
   let simpleDiff: FileDiff;
@@ -131,6 +132,22 @@ describe('InlineDiffView', () => {
       expect(lines[2]).toContain('\x1b[2m'); // Dim
     });
 
+    it('labels separators with the next hunk\'s @@ header', () => {
+      const diff = computeDiff(
+        'test.ts',
+        Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n',
+        Array.from({ length: 20 }, (_, i) => i === 0 || i === 19 ? `changed ${i + 1}` : `line ${i + 1}`).join('\n') + '\n',
+      );
+
+      const view = new InlineDiffView(diff);
+      const lines = view.render(80, 30);
+      const separators = lines.filter(line => line.includes('···'));
+
+      // Only between hunks, not before the first
+      expect(separators).toHaveLength(1);
+      expect(separators[0]).toContain('@@ -17,4 +17,4 @@');
+    });
+
     it('does not render separator for contiguous lines', () => {
       const view = new InlineDiffView(simpleDiff);
       const lines = view.render(80, 10);
@@ -440,6 +457,44 @@ describe('InlineDiffView', () => {
     });
   });
 
+  describe('Word-level highlighting', () => {
+    const wordDiff: FileDiff = {
+      filePath: 'test.ts',
+      isNewFile: false,
+      additions: 1,
+      deletions: 1,
+      hunks: [
+        { type: 'removed', content: 'const foo = 1;', oldLineNumber: 1, changes: [{ start: 6, end: 9 }] },
+        { type: 'added', content: 'const bar = 1;', newLineNumber: 1, changes: [{ start: 6, end: 9 }] },
+      ],
+    };
+
+    it('draws changed spans with a stronger background', () => {
+      const view = new InlineDiffView(wordDiff);
+      view.setCursor(1); // keep cursor highlight off the removed line
+      const lines = view.render(80, 10);
+
+      expect(lines[0]).toContain('\x1b[48;5;88mfoo\x1b[48;5;52m');
+      expect(lines[0]).not.toContain('\x1b[48;5;88mconst');
+    });
+
+    it('applies word highlight to added lines', () => {
+      const view = new InlineDiffView(wordDiff);
+      const lines = view.render(80, 10);
+      // Cursor is on line 0, so inspect the added line
+      expect(lines[1]).toContain('\x1b[48;5;28mbar\x1b[48;5;22m');
+    });
+
+    it('keeps word highlight across highlighter escape codes', () => {
+      // A reset in the middle of the changed word must not drop its background
+      const highlightFn = (code: string) => code.replace('bar', 'b\x1b[0mar');
+      const view = new InlineDiffView(wordDiff, highlightFn);
+      view.setCursor(0);
+      const lines = view.render(80, 10);
+      expect(lines[1]).toContain('\x1b[48;5;28mb\x1b[0m\x1b[48;5;28mar\x1b[48;5;22m');
+    });
+  });
+
   describe('Syntax highlighting', () => {
     it('calls highlightFn for context lines when provided', () => {
       const calls: Array<{ code: string; filePath: string }> = [];
@@ -922,4 +977,340 @@ describe('InlineDiffView', () => {
       expect(view.isVisualMode).toBe(false);
     });
   });
+
+  describe('View state', () => {
+    it('round-trips cursor, scroll and visual anchor', () => {
+      const view = new InlineDiffView(simpleDiff);
+      view.setCursor(1);
+      view.enterVisualMode();
+      view.moveCursor(2);
+
+      const state = view.getViewState();
+      expect(state).toEqual({ cursorLine: 3, scrollOffset: 0, visualAnchor: 1 });
+
+      const restored = new InlineDiffView(simpleDiff);
+      restored.setViewState(state);
+      expect(restored.cursorLine).toBe(3);
+      expect(restored.isVisualMode).toBe(true);
+      expect(restored.getVisualRange()).toEqual([1, 3]);
+    });
+
+    it('omits the visual anchor outside visual mode', () => {
+      const view = new InlineDiffView(simpleDiff);
+      expect(view.getViewState()).not.toHaveProperty('visualAnchor');
+    });
+
+    it('clamps restored lines to the current diff', () => {
+      const view = new InlineDiffView(simpleDiff);
+      view.setViewState({ cursorLine: 50, scrollOffset: 40, visualAnchor: 60 });
+      expect(view.cursorLine).toBe(4);
+      expect(view.visualAnchor).toBe(4);
+      view.render(80, 10);
+      expect(view.scrollOffset).toBe(0);
+    });
+  });
+
+  describe('Change blocks', () => {
+    it('lists the first line of each added/removed run', () => {
+      const diff = computeDiff(
+        'test.ts',
+        'a\nb\nc\nd\ne\nf\ng\nh\ni\nj\nk\nl\n',
+        'a\nB\nc\nd\ne\nf\ng\nh\ni\nj\nK\nl\n',
+      );
+      const view = new InlineDiffView(diff);
+      const starts = view.getChangeBlockStarts();
+
+      expect(starts).toHaveLength(2);
+      for (const start of starts) {
+        view.setCursor(start);
+        expect(view.getCursorDiffLine()?.type).toBe('removed');
+      }
+    });
+
+    it('treats a removed run followed by an added run as one block', () => {
+      const view = new InlineDiffView(simpleDiff);
+      expect(view.getChangeBlockStarts()).toEqual([1]);
+    });
+  });
+
+  describe('Search', () => {
+    it('highlights matches in reverse video', () => {
+      const view = new InlineDiffView(simpleDiff);
+      view.setSearch(/new/g);
+      const lines = view.render(80, 10);
+
+      expect(lines[2]).toContain('line 2 \x1b[7mnew\x1b[27m');
+      expect(lines[0]).not.toContain('\x1b[7m');
+    });
+
+    it('matches raw content when a highlighter adds ANSI', () => {
+      const view = new InlineDiffView(simpleDiff, code => `\x1b[33m${code}\x1b[39m`);
+      view.setSearch(/39/g);
+      expect(view.getSearchMatchLines()).toEqual([]);
+    });
+
+    it('lists matching lines and keeps the cursor when set', () => {
+      const view = new InlineDiffView(simpleDiff);
+      view.setCursor(3);
+      view.setSearch(/line [24]/g);
+
+      expect(view.getSearchMatchLines()).toEqual([1, 2, 4]);
+      expect(view.cursorLine).toBe(3);
+    });
+
+    it('computes matching lines once per search and diff', () => {
+      const view = new InlineDiffView(simpleDiff);
+      view.setSearch(/line [24]/g);
+      const first = view.getSearchMatchLines();
+      expect(view.getSearchMatchLines()).toBe(first);
+
+      view.setSearch(/line 2/g);
+      expect(view.getSearchMatchLines()).toEqual([1, 2]);
+      view.setDiff(computeDiff('test.ts', 'line 2\n', 'other\n'));
+      expect(view.getSearchMatchLines()).toEqual([0]);
+    });
+
+    it('clears highlighting with undefined', () => {
+      const view = new InlineDiffView(simpleDiff);
+      view.setSearch(/line/g);
+      view.setSearch(undefined);
+      expect(view.getSearchMatchLines()).toEqual([]);
+      expect(view.render(80, 10).join('')).not.toContain('\x1b[7m');
+    });
+  });
+
+  describe('Folding', () => {
+    const twoHunks = () => computeDiff(
+      'test.ts',
+      'a\nb\nc\nd\ne\nf\ng\nh\ni\nj\nk\nl\n',
+      'a\nB\nc\nd\ne\nf\ng\nh\ni\nj\nK\nl\n',
+    );
+
+    it('renders a folded hunk as one summary row', () => {
+      const view = new InlineDiffView(twoHunks());
+      const total = view.totalLines;
+      view.setFoldedHunks([0]);
+
+      expect(view.totalLines).toBe(total - 5);
+      expect(view.isFoldLine(0)).toBe(true);
+      expect(view.render(80, 20)[0]).toContain('lines 1–5 +1 -1 · 6 lines folded');
+      expect(view.isSeparatorLine(1)).toBe(true);
+    });
+
+    it('moves the cursor onto the summary row and back to the hunk', () => {
+      const view = new InlineDiffView(twoHunks());
+      view.setCursor(2);
+
+      view.setFoldedHunks([0]);
+      expect(view.cursorLine).toBe(0);
+      expect(view.getCursorDiffLine()).toBeUndefined();
+      expect(view.getLineForDiffLineIndex(3)).toBe(0);
+
+      view.setFoldedHunks([]);
+      expect(view.cursorLine).toBe(0);
+      expect(view.getCursorDiffLine()?.content).toBe('a');
+    });
+
+    it('keeps the cursor on the same line when another hunk folds', () => {
+      const view = new InlineDiffView(twoHunks());
+      view.scrollToBottom();
+      view.setFoldedHunks([0]);
+      expect(view.getCursorDiffLine()?.content).toBe('l');
+    });
+
+    it('leaves folded lines out of the selection', () => {
+      const view = new InlineDiffView(twoHunks());
+      view.setFoldedHunks([1]);
+      view.enterVisualMode();
+      view.scrollToBottom();
+
+      expect(view.getSelectedDiffLines().map(line => line.content)).toEqual(['a', 'b', 'B', 'c', 'd', 'e']);
+    });
+
+    it('counts a fold row as a change block', () => {
+      const view = new InlineDiffView(twoHunks());
+      view.setFoldedHunks([0, 1]);
+      expect(view.getChangeBlockStarts()).toEqual([0, 2]);
+      expect(view.getHunkIndexAt(1)).toBe(1);
+    });
+
+    it('saves folds in the view state', () => {
+      const view = new InlineDiffView(twoHunks());
+      view.setFoldedHunks([1, 7]);
+      const state = view.getViewState();
+      expect(state.folded).toEqual([1]);
+
+      const restored = new InlineDiffView(twoHunks());
+      restored.setViewState(state);
+      expect(restored.getFoldedHunks()).toEqual([1]);
+      expect(restored.totalLines).toBe(view.totalLines);
+    });
+  });
+
+  describe('Wrapping', () => {
+    const strip = (s: string) => s.replace(/\x1b\[[0-9;]*m/g, '');
+    const long = 'x'.repeat(20) + 'y'.repeat(20) + 'z'.repeat(10);
+    const wrapDiff = () => computeDiff('test.ts', 'a\nb\n', `a\n${long}\nb\n`);
+
+    it('truncates long lines unless wrapping', () => {
+      const view = new InlineDiffView(wrapDiff());
+      expect(view.render(20, 10)).toHaveLength(3);
+      expect(view.totalRows).toBe(3);
+    });
+
+    it('splits a long line into continuation rows after the gutter', () => {
+      const view = new InlineDiffView(wrapDiff());
+      view.setWrap(true);
+      const rows = view.render(20, 10).map(strip);
+
+      // 4-column gutter leaves 16 columns: 50 chars take 4 rows
+      expect(rows).toHaveLength(6);
+      expect(view.totalRows).toBe(6);
+      expect(view.totalLines).toBe(3);
+      expect(rows[1]).toBe(`2 + ${long.slice(0, 16)}`);
+      expect(rows[2]).toBe(`  ↪ ${long.slice(16, 32)}`);
+      expect(rows.slice(1, 5).map(row => row.slice(4)).join('')).toBe(long);
+    });
+
+    it('maps viewport rows to lines, across continuation rows', () => {
+      const view = new InlineDiffView(wrapDiff());
+      view.setWrap(true);
+      view.render(20, 10);
+
+      expect([0, 1, 2, 4, 5].map(row => view.getLineAtRow(row))).toEqual([0, 1, 1, 1, 2]);
+      expect(view.getLineAtRow(6)).toBe(-1);
+      expect(view.getLineAtRow(-1)).toBe(-1);
+    });
+
+    it('moves the cursor by line and highlights all of its rows', () => {
+      const view = new InlineDiffView(wrapDiff());
+      view.setWrap(true);
+      view.moveCursor(1);
+      const rows = view.render(20, 10);
+
+      expect(view.getCursorDiffLine()?.content).toBe(long);
+      expect(rows.slice(1, 5).every(row => row.includes('\x1b[48;5;240m'))).toBe(true);
+      view.moveCursor(1);
+      expect(view.getCursorDiffLine()?.content).toBe('b');
+    });
+
+    it('scrolls by display rows', () => {
+      const view = new InlineDiffView(wrapDiff());
+      view.setWrap(true);
+      view.render(20, 3);
+      view.scrollToBottom();
+      const rows = view.render(20, 3).map(strip);
+
+      expect(view.scrollOffset).toBe(3);
+      expect(rows[2]).toContain('b');
+      expect(view.getDisplayRow(2)).toBe(5);
+    });
+  });
+
+  describe('Horizontal scrolling', () => {
+    const strip = (s: string) => s.replace(/\x1b\[[0-9;]*m/g, '');
+    const long = 'x'.repeat(20) + 'y'.repeat(20) + 'z'.repeat(10);
+    const panDiff = () => computeDiff('test.ts', 'a\nb\n', `a\n${long}\nb\n`);
+
+    it('marks content that continues past the right edge', () => {
+      const view = new InlineDiffView(panDiff());
+      const rows = view.render(20, 10).map(strip);
+      expect(rows[1]).toBe(`2 + ${long.slice(0, 15)}›`);
+      expect(rows[0]).toBe('1   a');
+    });
+
+    it('pans the content while the gutter stays fixed', () => {
+      const view = new InlineDiffView(panDiff());
+      view.render(20, 10);
+      view.setColumnOffset(16);
+      const rows = view.render(20, 10).map(strip);
+
+      expect(rows[1]).toBe(`2 + ${long.slice(16, 31)}›`);
+      expect(rows[0]).toBe('1   ');
+    });
+
+    it('stops once the end of the longest line is visible', () => {
+      const view = new InlineDiffView(panDiff());
+      view.render(20, 10);
+      view.setColumnOffset(1000);
+
+      expect(view.columnOffset).toBe(34);
+      expect(strip(view.render(20, 10)[1])).toBe(`2 + ${long.slice(34)}`);
+    });
+
+    it('keeps highlight escapes from before the visible window', () => {
+      const view = new InlineDiffView(panDiff(), code => `\x1b[33m${code}\x1b[39m`);
+      view.render(20, 10);
+      view.setColumnOffset(8);
+      expect(view.render(20, 10)[1]).toMatch(/\x1b\[33m[^\x1b]*x{12}y{3}/);
+    });
+  });
+
+  describe('Themes', () => {
+    it('uses the theme colors for lines and the cursor', () => {
+      const view = new InlineDiffView(simpleDiff, undefined, DIFF_THEMES.light);
+      const lines = view.render(80, 10);
+
+      expect(lines[2]).toContain('\x1b[48;5;194m');
+      expect(lines[1]).toContain('\x1b[48;5;224m');
+      expect(lines[0].startsWith('\x1b[48;5;252m')).toBe(true);
+    });
+
+    it('renders no colors except reverse video for the cursor with the no-color theme', () => {
+      const view = new InlineDiffView(simpleDiff, undefined, DIFF_THEMES.none);
+      const lines = view.render(80, 10);
+
+      expect(lines[0].startsWith('\x1b[7m')).toBe(true);
+      expect(lines.slice(1).join('')).not.toMatch(/\x1b\[(3|4|9|10)\d/);
+    });
+
+    it('ends word highlights without a line background', () => {
+      const diff = computeDiff('test.ts', 'const a = 1;\n', 'const a = 2;\n');
+      const view = new InlineDiffView(diff, undefined, DIFF_THEMES.ansi16);
+      const added = view.render(80, 10)[1];
+      expect(added).toContain('\x1b[42m2\x1b[49m;');
+    });
+
+    it('replaces truecolor backgrounds on the cursor line', () => {
+      const bg = hexColor('#203020', 'bg');
+      const view = new InlineDiffView(simpleDiff, undefined, { ...DIFF_THEMES.dark, addedBg: bg });
+      view.setCursor(2);
+      const lines = view.render(80, 10);
+
+      expect(lines[3]).toContain(bg);
+      expect(lines[2]).not.toContain(bg);
+    });
+  });
+
+  describe('Dual gutter', () => {
+    const strip = (s: string) => s.replace(/\x1b\[[0-9;]*m/g, '');
+
+    it('shows old and new numbers in separately sized columns', () => {
+      const original = Array.from({ length: 9 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+      const current = `new\n${original}`.replace('line 9', 'line nine');
+      const view = new InlineDiffView(computeDiff('test.ts', original, current, { context: 1 }));
+      view.setGutterMode('dual');
+      const rows = view.render(80, 10).map(strip);
+
+      expect(rows[0]).toBe('   1 + new');
+      expect(rows[1]).toBe('1  2   line 1');
+    });
+
+    it('leaves the column a line lacks blank', () => {
+      const view = new InlineDiffView(simpleDiff);
+      view.setGutterMode('dual');
+      const rows = view.render(80, 10).map(strip);
+
+      expect(rows[1]).toBe('2   - line 2 old');
+      expect(rows[2]).toBe('  2 + line 2 new');
+      expect(rows[4]).toBe('3 4   line 4');
+    });
+
+    it('switches back to a single column', () => {
+      const view = new InlineDiffView(simpleDiff);
+      view.setGutterMode('dual');
+      view.setGutterMode('single');
+      expect(strip(view.render(80, 10)[4])).toBe('4   line 4');
+    });
+  });
 });
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { formatHelpLine, formatKeymapHelp, formatKeySpec, KeySequenceMatcher, resolveKeymap } from "../src/keymap";
+
+const keyUtils = {
+  matchesKey: (data: string, key: unknown) => data === key,
+  Key: {
+    escape: "ESC",
+    up: "UP",
+    down: "DOWN",
+    enter: "ENTER",
+    tab: "TAB",
+    ctrl: (k: string) => `CTRL+${k}`,
+  },
+};
+
+describe("keymap", () => {
+  describe("formatKeySpec", () => {
+    it("shows characters as typed and named keys by name", () => {
+      expect(formatKeySpec("]c")).toBe("]c");
+      expect(formatKeySpec("<C-d>")).toBe("Ctrl+D");
+      expect(formatKeySpec("<M-v>")).toBe("Alt+V");
+      expect(formatKeySpec("<Esc>")).toBe("Esc");
+      expect(formatKeySpec("<up>")).toBe("↑");
+      expect(formatKeySpec("<C-x><C-s>")).toBe("Ctrl+X Ctrl+S");
+      expect(formatKeySpec("<PageDown>")).toBe("PgDn");
+      expect(formatKeySpec("<space>")).toBe("Space");
+    });
+
+    it("treats a < that doesn't start a named key as literal", () => {
+      expect(formatKeySpec("<")).toBe("<");
+      expect(formatKeySpec("<>")).toBe("<>");
+    });
+  });
+
+  describe("resolveKeymap", () => {
+    it("replaces bindings per action and ignores unknown actions", () => {
+      const defaults = { next: ["n"], dismiss: ["d"] };
+      const keymap = resolveKeymap(defaults, { next: "<C-n>", dismiss: [], other: "x" } as never);
+      expect(keymap).toEqual({ next: ["<C-n>"], dismiss: [] });
+      expect(defaults.next).toEqual(["n"]);
+    });
+  });
+
+  describe("formatHelpLine", () => {
+    it("uses each action's first key and skips unbound entries", () => {
+      const keymap = { next: ["n", "<Down>"], prev: ["p"], down: ["<C-d>"], up: ["<C-u>"], dismiss: [] };
+      const line = formatHelpLine(keymap, [
+        { actions: ["next", "prev"], label: "files" },
+        { actions: ["dismiss"], label: "dismiss" },
+        { actions: ["down", "up"], label: "scroll" },
+      ]);
+      expect(line).toBe("n/p files  Ctrl+D/U scroll");
+    });
+
+    it("joins keys with the entry's joiner", () => {
+      const keymap = { back: ["<"], forward: [">"] };
+      expect(formatHelpLine(keymap, [{ actions: ["back", "forward"], label: "history", joiner: "" }])).toBe("<> history");
+      expect(formatHelpLine({ ...keymap, forward: ["<C-f>"] }, [{ actions: ["back", "forward"], label: "history", joiner: "" }]))
+        .toBe("</Ctrl+F history");
+    });
+  });
+
+  describe("formatKeymapHelp", () => {
+    it("lists every key of bound actions in aligned columns", () => {
+      const keymap = { next: ["]c", "}"], quit: ["q"], dismiss: [] };
+      const lines = formatKeymapHelp(keymap, ["next", "quit", "dismiss"], {
+        next: "Next change",
+        quit: "Close",
+        dismiss: "Dismiss",
+      });
+      expect(lines).toEqual(["]c }  Next change", "q     Close"]);
+    });
+  });
+
+  describe("KeySequenceMatcher", () => {
+    const keymap = {
+      top: ["gg"],
+      nextChange: ["]c"],
+      next: ["n"],
+      nextFile: ["n"],
+      down: ["j", "<C-n>"],
+      save: ["<C-x><C-s>"],
+      cancel: ["<Esc>"],
+    };
+
+    it("matches single keys, returning every action bound to them", () => {
+      const matcher = new KeySequenceMatcher(keymap, keyUtils);
+      expect(matcher.feed("n")).toEqual(["next", "nextFile"]);
+      expect(matcher.feed("CTRL+n")).toEqual(["down"]);
+      expect(matcher.feed("?")).toEqual([]);
+    });
+
+    it("waits for the rest of a sequence", () => {
+      const matcher = new KeySequenceMatcher(keymap, keyUtils);
+      expect(matcher.feed("g")).toBeUndefined();
+      expect(matcher.pendingKeys).toBe("g");
+      expect(matcher.feed("g")).toEqual(["top"]);
+      expect(matcher.pendingKeys).toBe("");
+
+      expect(matcher.feed("CTRL+x")).toBeUndefined();
+      expect(matcher.feed("CTRL+s")).toEqual(["save"]);
+    });
+
+    it("starts over with a key that doesn't continue the sequence", () => {
+      const matcher = new KeySequenceMatcher(keymap, keyUtils);
+      matcher.feed("]");
+      expect(matcher.feed("j")).toEqual(["down"]);
+      matcher.feed("]");
+      expect(matcher.feed("g")).toBeUndefined();
+    });
+
+    it("cancels a sequence with Escape", () => {
+      const matcher = new KeySequenceMatcher(keymap, keyUtils);
+      matcher.feed("]");
+      expect(matcher.feed("ESC")).toEqual([]);
+      expect(matcher.feed("ESC")).toEqual(["cancel"]);
+    });
+
+    it("matches page keys by their terminal input", () => {
+      const matcher = new KeySequenceMatcher({ pageUp: ["<PageUp>"], pageDown: ["<pagedown>"] }, keyUtils);
+      expect(matcher.feed("\x1b[5~")).toEqual(["pageUp"]);
+      expect(matcher.feed("\x1b[6~")).toEqual(["pageDown"]);
+      expect(matcher.feed("PAGEDOWN")).toEqual([]);
+    });
+
+    it("drops a sequence on reset", () => {
+      const matcher = new KeySequenceMatcher(keymap, keyUtils);
+      matcher.feed("g");
+      matcher.reset();
+      expect(matcher.feed("c")).toEqual([]);
+    });
+  });
+});
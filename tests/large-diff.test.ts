@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { DiffState } from '../src/diff-state';
+import { DiffReviewModal } from '../src/modal';
+import { DiffViewController } from '../src/diff-view-controller';
+
+// Budgets are generous for slow CI machines; before lazy rendering these
+// took several seconds each
+const LINES = 100_000;
+const BUDGET_MS = 2000;
+
+function generate(lines: number): string {
+  return Array.from({ length: lines }, (_, i) => `line ${i + 1}: const value = ${i} * 2;`).join('\n') + '\n';
+}
+
+function open(original: string, current: string, highlightFn?: (code: string) => string) {
+  const state = new DiffState();
+  state.trackFile('big.ts', original, current);
+  const modal = new DiffReviewModal(state);
+  const controller = new DiffViewController(modal.getSelectedDiff()!, highlightFn);
+  const lines = controller.render(120, 40);
+  return { modal, controller, lines };
+}
+
+describe('large diffs', () => {
+  it(`opens a ${LINES}-line new file within ${BUDGET_MS}ms`, () => {
+    const content = generate(LINES);
+
+    const start = performance.now();
+    const { modal, lines } = open('', content);
+    const elapsed = performance.now() - start;
+
+    expect(modal.getFileList()[0]).toMatchObject({ isNewFile: true, additions: LINES });
+    expect(lines).toHaveLength(40);
+    expect(elapsed).toBeLessThan(BUDGET_MS);
+  });
+
+  it(`opens a ${LINES}-line modified file within ${BUDGET_MS}ms`, () => {
+    const original = generate(LINES);
+    const current = original
+      .replace('line 10: ', 'line 10 (edited): ')
+      .replace('line 50000: ', 'line 50000 (edited): ')
+      .replace('line 99990: ', 'line 99990 (edited): ');
+
+    const start = performance.now();
+    const { modal } = open(original, current);
+    const elapsed = performance.now() - start;
+
+    expect(modal.getFileList()[0]).toMatchObject({ additions: 3, deletions: 3 });
+    expect(elapsed).toBeLessThan(BUDGET_MS);
+  });
+
+  it('steps through search matches without rescanning the diff', () => {
+    const { controller } = open('', generate(LINES));
+    controller.setSearch(/value = 9999\d /g);
+    expect(controller.getSearchMatchLines()).toHaveLength(10);
+
+    const start = performance.now();
+    for (let i = 0; i < 100; i++) {
+      controller.jumpToSearchMatch(1);
+      controller.getSearchMatchLines();
+      controller.render(120, 40);
+    }
+    expect(performance.now() - start).toBeLessThan(BUDGET_MS);
+  });
+
+  it('highlights only the visible lines', () => {
+    const calls: string[] = [];
+    const highlightFn = (code: string) => {
+      calls.push(code);
+      return code;
+    };
+    const { controller } = open('', generate(LINES), highlightFn);
+    expect(calls.length).toBeLessThanOrEqual(40);
+
+    controller.scrollToBottom();
+    controller.render(120, 40);
+    expect(calls.length).toBeLessThanOrEqual(80);
+  });
+
+  it('reuses highlighted lines when re-rendering', () => {
+    let calls = 0;
+    const { controller } = open('', generate(1000), code => {
+      calls++;
+      return code;
+    });
+    const afterFirst = calls;
+
+    controller.render(120, 40);
+    controller.moveCursor(1);
+    controller.render(120, 40);
+    expect(calls).toBe(afterFirst);
+  });
+
+  it('highlights only the visible lines in split layout', () => {
+    let calls = 0;
+    const { controller } = open('', generate(LINES), code => {
+      calls++;
+      return code;
+    });
+    calls = 0;
+
+    controller.setLayout('sideBySide');
+    controller.render(160, 40);
+    expect(calls).toBeLessThanOrEqual(80);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { DiffReviewModal } from '../src/modal';
 import { DiffState } from '../src/diff-state';
 
@@ -176,6 +176,39 @@ describe('DiffReviewModal', () => {
     });
   });
 
+  describe('hunk accept/reject', () => {
+    it('acceptHunk acts on the selected file and refreshes counts', () => {
+      diffState.trackFile('file1.ts', 'a\nb\n', 'a\nB\n');
+      modal.refresh();
+
+      expect(modal.acceptHunk(0)).toBe(true);
+      expect(modal.getFileList()).toHaveLength(0);
+    });
+
+    it('rejectHunk returns the reverted content', () => {
+      diffState.trackFile('file1.ts', 'a\nb\n', 'a\nB\n');
+      modal.refresh();
+
+      expect(modal.rejectHunk(0)).toBe('a\nb\n');
+      expect(modal.getFileList()).toHaveLength(0);
+    });
+
+    it('revertLines reverts lines of the selected file', () => {
+      diffState.trackFile('file1.ts', 'a\nb\n', 'a\nB\n');
+      modal.refresh();
+
+      const lines = modal.getSelectedDiff()!.hunks;
+      expect(modal.revertLines(lines)).toBe('a\nb\n');
+      expect(modal.getFileList()).toHaveLength(0);
+    });
+
+    it('returns false/undefined when no files', () => {
+      expect(modal.acceptHunk(0)).toBe(false);
+      expect(modal.rejectHunk(0)).toBeUndefined();
+      expect(modal.revertLines([])).toBeUndefined();
+    });
+  });
+
   describe('getSelectedPath', () => {
     it('returns current file path', () => {
       diffState.trackFile('file1.ts', 'a', 'b');
@@ -239,6 +272,166 @@ describe('DiffReviewModal', () => {
     });
   });
 
+  describe('selection by path', () => {
+    it('keeps the selected file when earlier files drop out', () => {
+      diffState.trackFile('file1.ts', 'a', 'b');
+      diffState.trackFile('file2.ts', 'c', 'd');
+      diffState.trackFile('file3.ts', 'e', 'f');
+      modal.selectIndex(1);
+
+      diffState.dismissFile('file1.ts');
+      expect(modal.selectedFile).toBe('file2.ts');
+      expect(modal.selectedIndex).toBe(0);
+    });
+
+    it('keeps the file picker on the same file', () => {
+      diffState.trackFile('file1.ts', 'a', 'b');
+      diffState.trackFile('file2.ts', 'c', 'd');
+      modal.openFilePicker();
+      modal.filePickerNext();
+
+      diffState.dismissFile('file1.ts');
+      expect(modal.getFileList()[modal.filePickerIndex].path).toBe('file2.ts');
+    });
+
+    it('stays at the same index when the selected file drops out', () => {
+      diffState.trackFile('file1.ts', 'a', 'b');
+      diffState.trackFile('file2.ts', 'c', 'd');
+      diffState.trackFile('file3.ts', 'e', 'f');
+      modal.selectIndex(1);
+
+      diffState.dismissFile('file2.ts');
+      expect(modal.selectedFile).toBe('file3.ts');
+    });
+  });
+
+  describe('live updates', () => {
+    it('refreshes the file list when the DiffState changes', () => {
+      diffState.trackFile('file1.ts', 'a\n', 'b\n');
+      expect(modal.getFileList()).toHaveLength(1);
+
+      diffState.updateFile('file1.ts', 'b\nc\n');
+      expect(modal.getFileList()[0].additions).toBe(2);
+
+      diffState.dismissFile('file1.ts');
+      expect(modal.getFileList()).toHaveLength(0);
+    });
+
+    it('notifies onChange listeners after refreshing', () => {
+      const listener = vi.fn(() => {
+        expect(modal.getFileList()).toHaveLength(1);
+      });
+      modal.onChange(listener);
+
+      diffState.trackFile('file1.ts', 'a\n', 'b\n');
+      expect(listener).toHaveBeenCalledWith(['file1.ts']);
+    });
+
+    it('recomputes counts only for the changed files while followed', () => {
+      modal.onChange(() => {});
+      diffState.trackFile('file1.ts', 'a\n', 'b\n');
+      diffState.trackFile('file2.ts', 'c\n', 'd\n');
+      const getFileStats = vi.spyOn(diffState, 'getFileStats');
+
+      diffState.updateFile('file1.ts', 'b\ne\n');
+      expect(getFileStats.mock.calls.map(call => call[0])).toEqual(['file1.ts']);
+      expect(modal.getFileList().map(f => f.additions)).toEqual([2, 1]);
+    });
+
+    it('drops its listeners on dispose but stays current when read', () => {
+      const listener = vi.fn();
+      modal.onChange(listener);
+      modal.dispose();
+
+      diffState.trackFile('file1.ts', 'a\n', 'b\n');
+      expect(listener).not.toHaveBeenCalled();
+      expect(modal.getFileList()).toHaveLength(1);
+    });
+
+    it('subscribes to the DiffState only while it has listeners', () => {
+      const on = vi.spyOn(diffState, 'on');
+      const other = new DiffReviewModal(diffState);
+      expect(on).not.toHaveBeenCalled();
+
+      const unsubscribe = other.onChange(() => {});
+      expect(on).toHaveBeenCalledTimes(1);
+      const refresh = vi.spyOn(other, 'refresh');
+      unsubscribe();
+      diffState.trackFile('file1.ts', 'a\n', 'b\n');
+      expect(refresh).not.toHaveBeenCalled();
+    });
+
+    it('keeps the list current after dismissing without listeners', () => {
+      diffState.trackFile('a.ts', 'a\n', 'b\n');
+      diffState.trackFile('b.ts', 'c\n', 'd\n');
+      modal.dismissSelected();
+      expect(modal.getFileList().map(f => f.path)).toEqual(['b.ts']);
+
+      diffState.trackFile('c.ts', 'e\n', 'f\n');
+      expect(modal.getFileList().map(f => f.path)).toEqual(['b.ts', 'c.ts']);
+    });
+  });
+
+  describe('searchFiles', () => {
+    it('returns hits from every listed file in list order', () => {
+      diffState.trackFile('file1.ts', 'a\n', 'needle\n');
+      diffState.trackFile('file2.ts', 'x\n', 'y\n');
+      diffState.trackFile('file3.ts', 'needle\n', 'z\n');
+
+      const hits = modal.searchFiles(/needle/g);
+      expect(hits.map(hit => [hit.path, hit.line.type])).toEqual([
+        ['file1.ts', 'added'],
+        ['file3.ts', 'removed'],
+      ]);
+    });
+  });
+
+  describe('diff options', () => {
+    it('defaults to no options', () => {
+      expect(modal.diffOptions).toEqual({});
+    });
+
+    it('uses constructor options for counts and diffs', () => {
+      diffState.trackFile('file1.ts', 'a\nb\n', 'A\nb\n');
+      const caseInsensitive = new DiffReviewModal(diffState, { ignoreCase: true });
+
+      expect(caseInsensitive.getFileList()[0].additions).toBe(0);
+      expect(caseInsensitive.getSelectedDiff()!.hunks).toHaveLength(0);
+    });
+
+    it('setDiffOptions recomputes the file list', () => {
+      diffState.trackFile('file1.ts', 'a\nb\n', 'a \nb\n');
+      modal.refresh();
+      expect(modal.getFileList()[0].additions).toBe(1);
+
+      modal.setDiffOptions({ ignoreWhitespace: 'all' });
+      expect(modal.getFileList()[0].additions).toBe(0);
+    });
+  });
+
+  describe('since checkpoint', () => {
+    it('setSince limits the file list to changes since the checkpoint', () => {
+      diffState.trackFile('file1.ts', 'a\n', 'b\n');
+      diffState.trackFile('file2.ts', 'x\n', 'y\n');
+      diffState.checkpoint('turn-1');
+      diffState.updateFile('file2.ts', 'y\nz\n');
+
+      modal.setSince('turn-1');
+      expect(modal.since).toBe('turn-1');
+      expect(modal.getFileList().map(f => f.path)).toEqual(['file2.ts']);
+      expect(modal.getSelectedDiff()!.additions).toBe(1);
+
+      modal.setSince(undefined);
+      expect(modal.getFileList()).toHaveLength(2);
+    });
+
+    it('lists checkpoints from the DiffState', () => {
+      diffState.checkpoint('turn-1');
+      diffState.checkpoint('turn-2');
+      expect(modal.getCheckpoints()).toEqual(['turn-1', 'turn-2']);
+    });
+  });
+
   describe('file picker', () => {
     it('starts with file picker closed', () => {
       expect(modal.isFilePickerOpen).toBe(false);
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { parseMouseInput } from "../src/mouse";
+
+describe("mouse", () => {
+  describe("parseMouseInput", () => {
+    it("decodes presses and releases", () => {
+      expect(parseMouseInput("\x1b[<0;12;5M")).toEqual([
+        { action: "press", button: "left", row: 5, col: 12, shift: false, alt: false, ctrl: false },
+      ]);
+      expect(parseMouseInput("\x1b[<2;1;1m")).toEqual([
+        { action: "release", button: "right", row: 1, col: 1, shift: false, alt: false, ctrl: false },
+      ]);
+    });
+
+    it("decodes modifiers", () => {
+      const [event] = parseMouseInput("\x1b[<28;3;4M");
+      expect(event).toMatchObject({ action: "press", button: "left", shift: true, alt: true, ctrl: true });
+    });
+
+    it("tells drags from plain motion", () => {
+      expect(parseMouseInput("\x1b[<32;3;4M")[0]).toMatchObject({ action: "drag", button: "left" });
+      expect(parseMouseInput("\x1b[<35;3;4M")[0]).toMatchObject({ action: "move", button: "none" });
+    });
+
+    it("decodes the wheel", () => {
+      const actions = ["64", "65", "66", "67"].map(code => parseMouseInput(`\x1b[<${code};1;1M`)[0].action);
+      expect(actions).toEqual(["scrollUp", "scrollDown", "scrollLeft", "scrollRight"]);
+    });
+
+    it("decodes several reports at once", () => {
+      const events = parseMouseInput("\x1b[<65;1;1M\x1b[<65;1;1M\x1b[<65;1;1M");
+      expect(events).toHaveLength(3);
+    });
+
+    it("ignores other input", () => {
+      expect(parseMouseInput("j")).toEqual([]);
+      expect(parseMouseInput("\x1b[A")).toEqual([]);
+      expect(parseMouseInput("\x1b[M !!")).toEqual([]);
+    });
+  });
+});
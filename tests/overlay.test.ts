@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { createOverlayHandler, OverlayTui, OverlayTheme, OverlayKeyUtils, OverlayCallbacks } from "../src/overlay";
+import { createOverlayHandler, formatOverlayHelp, OverlayTui, OverlayTheme, OverlayKeyUtils, OverlayCallbacks } from "../src/overlay";
 import { DiffState } from "../src/diff-state";
 import { DiffReviewModal } from "../src/modal";
+import { DIFF_THEMES } from "../src/diff-theme";
 
 // --- Test helpers ---
 
@@ -178,6 +179,412 @@ describe("createOverlayHandler", () => {
     });
   });
 
+  describe("mouse", () => {
+    // The diff's first line is rendered on the 4th row (1-based: border, header, rule)
+    const click = (row: number, modifiers = 0) => `\x1b[<${modifiers};10;${row}M`;
+    const release = (row: number) => `\x1b[<0;10;${row}m`;
+    const drag = (row: number) => `\x1b[<32;10;${row}M`;
+
+    function createLongState(): DiffReviewModal {
+      const state = new DiffState();
+      const original = Array.from({ length: 100 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+      state.trackFile("long.ts", original, original.replace("line 1\n", "line one\n").replace("line 100\n", "line hundred\n"));
+      return new DiffReviewModal(state);
+    }
+
+    it("moves the cursor to a clicked line", () => {
+      const { modal } = createStateWithFiles();
+      const onPasteToEditor = vi.fn();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, { onPasteToEditor });
+      handler.render(80);
+
+      handler.handleInput(click(6));
+      handler.handleInput("y");
+      expect(onPasteToEditor).toHaveBeenCalledWith("src/foo.ts:3");
+    });
+
+    it("maps rows relative to the overlay's origin", () => {
+      const { modal } = createStateWithFiles();
+      const onPasteToEditor = vi.fn();
+      const offsetTui = { ...tui, getOrigin: () => ({ row: 3, col: 5 }) };
+      const handler = createOverlayHandler(modal, offsetTui, theme, keyUtils, noHighlight, done, { onPasteToEditor });
+      handler.render(80);
+
+      handler.handleInput(click(7));
+      handler.handleInput("y");
+      expect(onPasteToEditor).toHaveBeenCalledWith("src/foo.ts:2");
+    });
+
+    it("ignores clicks outside the diff", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      handler.render(80);
+
+      handler.handleInput(click(2));
+      handler.handleInput(click(30));
+      expect(tui.requestRender).not.toHaveBeenCalled();
+    });
+
+    it("selects lines with shift-click", () => {
+      const { modal } = createStateWithFiles();
+      const onPasteToEditor = vi.fn();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, { onPasteToEditor });
+      handler.render(80);
+
+      handler.handleInput(click(5));
+      handler.handleInput(click(6, 4));
+      expect(handler.render(80)[1]).toContain("VISUAL LINE");
+      handler.handleInput("y");
+      expect(onPasteToEditor).toHaveBeenCalledWith(expect.stringContaining("`src/foo.ts:2-3`"));
+    });
+
+    it("selects lines by dragging and ends the selection with a plain click", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      handler.render(80);
+
+      handler.handleInput(click(4));
+      handler.handleInput(drag(6));
+      handler.handleInput(release(6));
+      expect(handler.render(80)[1]).toContain("VISUAL LINE");
+
+      handler.handleInput(click(5));
+      expect(handler.render(80)[1]).not.toContain("VISUAL LINE");
+    });
+
+    it("scrolls with the wheel", () => {
+      const modal = createLongState();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      const firstRow = () => handler.render(80)[3];
+
+      const top = firstRow();
+      for (let i = 0; i < 10; i++) {
+        handler.handleInput("\x1b[<65;10;10M");
+      }
+      expect(firstRow()).not.toBe(top);
+      for (let i = 0; i < 10; i++) {
+        handler.handleInput("\x1b[<64;10;10M");
+      }
+      expect(firstRow()).toBe(top);
+    });
+
+    it("opens a clicked file in the file picker", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      handler.handleInput("TAB");
+      const rows = handler.render(80);
+      const row = rows.findIndex(line => line.includes("src/bar.ts"));
+
+      handler.handleInput(click(row + 1));
+      expect(modal.isFilePickerOpen).toBe(false);
+      expect(modal.getSelectedPath()).toBe("src/bar.ts");
+    });
+
+    it("jumps to a clicked search result", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      handler.handleInput("/");
+      handler.handleInput("new");
+      handler.handleInput("TAB");
+      handler.handleInput("ENTER");
+      const rows = handler.render(80);
+      const row = rows.findIndex(line => line.includes("src/bar.ts:1"));
+
+      handler.handleInput(click(row + 1));
+      expect(modal.getSelectedPath()).toBe("src/bar.ts");
+      expect(handler.render(80)[1]).toContain("/new 1/1");
+    });
+
+    it("does not treat mouse reports as keys", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      handler.render(80);
+
+      handler.handleInput("\x1b[<0;1;1M");
+      expect(done).not.toHaveBeenCalled();
+      expect(modal.selectedIndex).toBe(0);
+    });
+  });
+
+  describe("keymap", () => {
+    it("generates the default help line", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      const lines = handler.render(400);
+      expect(lines[lines.length - 2]).toContain(
+        "? help  n/p files  d dismiss  a/r accept/reject  Tab list  Ctrl+D/U scroll  h/l pan  ]c/[c hunks  za/zM/zR fold  " +
+        "e/E/x expand  / search  s split  W wrap  w whitespace  <>,. history  c/C since  y yank  V visual  q/Esc close"
+      );
+    });
+
+    it("uses custom bindings in place of the defaults", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, undefined, {
+        keymap: { nextFile: "<C-n>", prevFile: "<C-p>" },
+      });
+
+      handler.handleInput("n");
+      expect(modal.selectedIndex).toBe(0);
+      handler.handleInput("CTRL+n");
+      expect(modal.selectedIndex).toBe(1);
+      handler.handleInput("CTRL+p");
+      expect(modal.selectedIndex).toBe(0);
+      expect(handler.render(400).join("\n")).toContain("Ctrl+N/P files");
+    });
+
+    it("frees keys of unbound actions", () => {
+      const { modal } = createStateWithFiles();
+      const onDismiss = vi.fn();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, { onDismiss }, {
+        keymap: { dismiss: [] },
+      });
+
+      handler.handleInput("d");
+      expect(onDismiss).not.toHaveBeenCalled();
+      expect(modal.getFileList()).toHaveLength(2);
+      expect(handler.render(400).join("\n")).not.toContain("dismiss");
+    });
+
+    it("supports multi-key sequences", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, undefined, {
+        keymap: { nextFile: "gn" },
+      });
+
+      handler.handleInput("g");
+      expect(modal.selectedIndex).toBe(0);
+      handler.handleInput("n");
+      expect(modal.selectedIndex).toBe(1);
+    });
+
+    it("applies the keymap to the file picker", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, undefined, {
+        keymap: { down: "<C-n>", select: "o" },
+      });
+
+      handler.handleInput("TAB");
+      handler.handleInput("j");
+      expect(modal.filePickerIndex).toBe(0);
+      handler.handleInput("CTRL+n");
+      expect(modal.filePickerIndex).toBe(1);
+      expect(handler.render(80).join("\n")).toContain("↑/Ctrl+N navigate  o select  Esc cancel");
+      handler.handleInput("o");
+      expect(modal.isFilePickerOpen).toBe(false);
+      expect(modal.selectedIndex).toBe(1);
+    });
+  });
+
+  describe("help screen", () => {
+    it("opens on ? with every action grouped by mode", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, createMockTui(200), theme, keyUtils, noHighlight, done);
+      handler.handleInput("?");
+
+      const joined = handler.render(120).join("\n");
+      expect(joined).toContain("Keys");
+      expect(joined).toContain("Visual mode");
+      expect(joined).toContain("File picker");
+      expect(joined).toMatch(/Ctrl\+D\s+Scroll down half a page/);
+      expect(joined).toMatch(/gg\s+Go to the first line/);
+      expect(joined).toMatch(/r\s+Revert the selected lines/);
+      expect(joined).toContain("any other key closes");
+    });
+
+    it("scrolls with the movement keys", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      handler.handleInput("?");
+      const firstRow = () => handler.render(80)[3];
+
+      const top = firstRow();
+      handler.handleInput("j");
+      handler.handleInput("j");
+      expect(firstRow()).not.toBe(top);
+      handler.handleInput("k");
+      handler.handleInput("k");
+      handler.handleInput("k");
+      expect(firstRow()).toBe(top);
+    });
+
+    it("closes on any other key without acting on it", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      handler.handleInput("?");
+      handler.handleInput("n");
+
+      expect(modal.selectedIndex).toBe(0);
+      expect(done).not.toHaveBeenCalled();
+      expect(handler.render(80).join("\n")).not.toContain("any other key closes");
+      expect(handler.render(80)[1]).toContain("src/foo.ts");
+    });
+
+    it("returns to the file picker it was opened from", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      handler.handleInput("TAB");
+      handler.handleInput("?");
+      expect(handler.render(80).join("\n")).not.toContain("File Picker");
+
+      handler.handleInput("ESC");
+      expect(modal.isFilePickerOpen).toBe(true);
+      expect(handler.render(80).join("\n")).toContain("File Picker");
+    });
+
+    it("follows the keymap", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, createMockTui(200), theme, keyUtils, noHighlight, done, undefined, {
+        keymap: { help: "<C-h>", dismiss: [] },
+      });
+      handler.handleInput("?");
+      expect(handler.render(120).join("\n")).not.toContain("Keys");
+
+      handler.handleInput("CTRL+h");
+      const joined = handler.render(120).join("\n");
+      expect(joined).toMatch(/Ctrl\+H\s+Show this help/);
+      expect(joined).not.toContain("Dismiss the file");
+    });
+  });
+
+  describe("counts and page motions", () => {
+    // A new file, so diff lines are file lines. With a 40-row terminal the
+    // diff gets max(5, floor(40 * 0.75) - 8) = 22 rows.
+    function createLongState(): DiffReviewModal {
+      const state = new DiffState();
+      state.trackFile("long.ts", "", Array.from({ length: 100 }, (_, i) => `line ${i + 1}`).join("\n") + "\n");
+      return new DiffReviewModal(state);
+    }
+
+    function cursorLine(handler: ReturnType<typeof createOverlayHandler>, onPasteToEditor: ReturnType<typeof vi.fn>): string {
+      handler.handleInput("y");
+      return onPasteToEditor.mock.calls[onPasteToEditor.mock.calls.length - 1][0];
+    }
+
+    function type(handler: ReturnType<typeof createOverlayHandler>, keys: string[]): void {
+      for (const key of keys) {
+        handler.handleInput(key);
+      }
+    }
+
+    it("moves count lines with a count before j and k", () => {
+      const onPasteToEditor = vi.fn();
+      const handler = createOverlayHandler(createLongState(), tui, theme, keyUtils, noHighlight, done, { onPasteToEditor });
+
+      type(handler, ["1", "2", "j"]);
+      expect(cursorLine(handler, onPasteToEditor)).toBe("long.ts:13");
+      type(handler, ["5", "k"]);
+      expect(cursorLine(handler, onPasteToEditor)).toBe("long.ts:8");
+    });
+
+    it("repeats jumps by the count", () => {
+      const state = new DiffState();
+      for (const name of ["a.ts", "b.ts", "c.ts", "d.ts"]) {
+        state.trackFile(name, "old\n", "new\n");
+      }
+      const modal = new DiffReviewModal(state);
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      type(handler, ["3", "n"]);
+      expect(modal.getSelectedPath()).toBe("d.ts");
+      type(handler, ["2", "p"]);
+      expect(modal.getSelectedPath()).toBe("b.ts");
+    });
+
+    it("repeats ]c by the count", () => {
+      const state = new DiffState();
+      const lines = "a\nb\nc\nd\ne\nf\ng\nh\ni\nj\nk\nl\nm\nn\no\np\nq\nr\ns\nt\nu\n";
+      state.trackFile("src/foo.ts", lines, lines.replace("b", "B").replace("j", "J").replace("t", "T"));
+      const handler = createOverlayHandler(new DiffReviewModal(state), tui, theme, keyUtils, noHighlight, done);
+
+      type(handler, ["]", "c"]);
+      expect(handler.render(80)[1]).toContain("hunk 1/3");
+      type(handler, ["2", "]", "c"]);
+      expect(handler.render(80)[1]).toContain("hunk 3/3");
+    });
+
+    it("treats a leading 0 as a key, not a count", () => {
+      const onPasteToEditor = vi.fn();
+      const handler = createOverlayHandler(createLongState(), tui, theme, keyUtils, noHighlight, done, { onPasteToEditor });
+
+      type(handler, ["0", "j"]);
+      expect(cursorLine(handler, onPasteToEditor)).toBe("long.ts:2");
+      type(handler, ["1", "0", "j"]);
+      expect(cursorLine(handler, onPasteToEditor)).toBe("long.ts:12");
+    });
+
+    it("shows the pending count and keys in the header", () => {
+      const handler = createOverlayHandler(createLongState(), tui, theme, keyUtils, noHighlight, done);
+
+      type(handler, ["1", "0"]);
+      expect(handler.render(80)[1]).toContain("10");
+      handler.handleInput("]");
+      expect(handler.render(80)[1]).toContain("10]");
+      handler.handleInput("c");
+      expect(handler.render(80)[1]).not.toContain("10]");
+    });
+
+    it("drops the count on Escape without closing", () => {
+      const onPasteToEditor = vi.fn();
+      const handler = createOverlayHandler(createLongState(), tui, theme, keyUtils, noHighlight, done, { onPasteToEditor });
+
+      type(handler, ["5", "ESC"]);
+      expect(done).not.toHaveBeenCalled();
+      handler.handleInput("j");
+      expect(cursorLine(handler, onPasteToEditor)).toBe("long.ts:2");
+    });
+
+    it("goes to the top with gg and the bottom with G", () => {
+      const onPasteToEditor = vi.fn();
+      const handler = createOverlayHandler(createLongState(), tui, theme, keyUtils, noHighlight, done, { onPasteToEditor });
+
+      handler.handleInput("G");
+      expect(cursorLine(handler, onPasteToEditor)).toBe("long.ts:100");
+      type(handler, ["g", "g"]);
+      expect(cursorLine(handler, onPasteToEditor)).toBe("long.ts:1");
+    });
+
+    it("moves a full viewport with Ctrl+F/B and PageDown/PageUp", () => {
+      const onPasteToEditor = vi.fn();
+      const handler = createOverlayHandler(createLongState(), tui, theme, keyUtils, noHighlight, done, { onPasteToEditor });
+
+      handler.handleInput("CTRL+f");
+      expect(cursorLine(handler, onPasteToEditor)).toBe("long.ts:23");
+      handler.handleInput("\x1b[6~");
+      expect(cursorLine(handler, onPasteToEditor)).toBe("long.ts:45");
+      handler.handleInput("CTRL+b");
+      handler.handleInput("\x1b[5~");
+      expect(cursorLine(handler, onPasteToEditor)).toBe("long.ts:1");
+    });
+
+    it("moves half the viewport with Ctrl+D/U", () => {
+      const onPasteToEditor = vi.fn();
+      const handler = createOverlayHandler(createLongState(), tui, theme, keyUtils, noHighlight, done, { onPasteToEditor });
+
+      handler.handleInput("CTRL+d");
+      expect(cursorLine(handler, onPasteToEditor)).toBe("long.ts:12");
+      type(handler, ["2", "CTRL+d"]);
+      expect(cursorLine(handler, onPasteToEditor)).toBe("long.ts:34");
+      handler.handleInput("CTRL+u");
+      expect(cursorLine(handler, onPasteToEditor)).toBe("long.ts:23");
+    });
+
+    it("follows the terminal height", () => {
+      const onPasteToEditor = vi.fn();
+      const handler = createOverlayHandler(createLongState(), createMockTui(80), theme, keyUtils, noHighlight, done, { onPasteToEditor });
+
+      handler.handleInput("CTRL+f");
+      expect(cursorLine(handler, onPasteToEditor)).toBe("long.ts:53");
+    });
+  });
+
+  describe("formatOverlayHelp", () => {
+    it("lists every bound action with its keys", () => {
+      const lines = formatOverlayHelp({ dismiss: [], nextChange: ["]c", "}"] });
+      expect(lines.some(line => /^\s+\]c \}\s+Next change block$/.test(line))).toBe(true);
+      expect(lines.some(line => line.includes("Dismiss the file"))).toBe(false);
+    });
+  });
+
   describe("handleInput — file picker", () => {
     it("closes file picker on Escape", () => {
       const { modal } = createStateWithFiles();
@@ -227,6 +634,173 @@ describe("createOverlayHandler", () => {
     });
   });
 
+  describe("handleInput — hunk accept/reject", () => {
+    it("accepts the hunk under the cursor with a", () => {
+      const { modal } = createStateWithFiles();
+      const callbacks: OverlayCallbacks = { onRevert: vi.fn() };
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, callbacks);
+      handler.handleInput("a");
+      expect(modal.getFileList().map(f => f.path)).toEqual(["src/bar.ts"]);
+      expect(callbacks.onRevert).not.toHaveBeenCalled();
+    });
+
+    it("rejects the hunk under the cursor with r and reports the new content", () => {
+      const { state, modal } = createStateWithFiles();
+      const callbacks: OverlayCallbacks = { onRevert: vi.fn() };
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, callbacks);
+      handler.handleInput("r");
+      expect(callbacks.onRevert).toHaveBeenCalledWith("src/foo.ts", "line1\nline2\n");
+      expect(state.getChangedFiles()).toEqual(["src/bar.ts"]);
+    });
+
+    it("closes overlay when the last hunk is resolved", () => {
+      const state = new DiffState();
+      state.trackFile("only.ts", "a\n", "b\n");
+      const modal = new DiffReviewModal(state);
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      handler.handleInput("a");
+      expect(done).toHaveBeenCalled();
+    });
+  });
+
+  describe("handleInput — revert selection", () => {
+    it("reverts the visual selection with r and reports the new content", () => {
+      const state = new DiffState();
+      state.trackFile("src/foo.ts", "a\nb\n", "a\nB\nc\n");
+      const modal = new DiffReviewModal(state);
+      const callbacks: OverlayCallbacks = { onRevert: vi.fn() };
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, callbacks);
+
+      // Rows: a, -b, +B, +c — select the last added line only
+      handler.handleInput("j");
+      handler.handleInput("j");
+      handler.handleInput("j");
+      handler.handleInput("V");
+      handler.handleInput("r");
+
+      expect(callbacks.onRevert).toHaveBeenCalledWith("src/foo.ts", "a\nB\n");
+      expect(handler.render(80).join("\n")).not.toContain("VISUAL LINE");
+    });
+
+    it("does nothing when only context lines are selected", () => {
+      const { modal } = createStateWithFiles();
+      const callbacks: OverlayCallbacks = { onRevert: vi.fn() };
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, callbacks);
+      handler.handleInput("V");
+      handler.handleInput("r");
+      expect(callbacks.onRevert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("handleInput — history", () => {
+    function createStateWithHistory() {
+      const state = new DiffState();
+      state.trackFile("src/foo.ts", "a\n", "a\nb\n", "turn-1");
+      state.updateFile("src/foo.ts", "a\nb\nc\n", "turn-2");
+      return { state, modal: new DiffReviewModal(state) };
+    }
+
+    it("steps the old side with > and shows the range", () => {
+      const { modal } = createStateWithHistory();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      handler.handleInput(">");
+      const joined = handler.render(80).join("\n").replace(/\x1b\[[0-9;]*m/g, "");
+      expect(joined).toContain("history v1→v2 (turn-2)");
+      // Only the last turn's line is added
+      expect(joined).toContain("+ c");
+      expect(joined).not.toContain("+ b");
+    });
+
+    it("steps the new side with ,", () => {
+      const { modal } = createStateWithHistory();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      handler.handleInput(",");
+      const joined = handler.render(80).join("\n").replace(/\x1b\[[0-9;]*m/g, "");
+      expect(joined).toContain("history v0→v1 (turn-1)");
+      expect(joined).toContain("+ b");
+      expect(joined).not.toContain("+ c");
+    });
+
+    it("keeps the old side before the new side", () => {
+      const { modal } = createStateWithHistory();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      handler.handleInput(">");
+      handler.handleInput(">");
+      handler.handleInput(">");
+      expect(handler.render(80).join("\n")).toContain("history v1→v2");
+    });
+
+    it("returns to the baseline diff on Escape", () => {
+      const { modal } = createStateWithHistory();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      handler.handleInput(">");
+      handler.handleInput("ESC");
+      expect(done).not.toHaveBeenCalled();
+      expect(handler.render(80).join("\n")).not.toContain("history");
+    });
+
+    it("does not accept hunks while comparing history", () => {
+      const { state, modal } = createStateWithHistory();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      handler.handleInput(">");
+      handler.handleInput("a");
+      expect(state.getChangedFiles()).toEqual(["src/foo.ts"]);
+    });
+  });
+
+  describe("handleInput — checkpoints", () => {
+    function createStateWithCheckpoints() {
+      const state = new DiffState();
+      state.trackFile("src/foo.ts", "a\n", "a\nb\n");
+      state.checkpoint("turn-1");
+      state.updateFile("src/foo.ts", "a\nb\nc\n");
+      state.checkpoint("turn-2");
+      state.updateFile("src/foo.ts", "a\nb\nc\nd\n");
+      return { state, modal: new DiffReviewModal(state) };
+    }
+
+    it("cycles from the newest checkpoint back to the baseline with c", () => {
+      const { modal } = createStateWithCheckpoints();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      handler.handleInput("c");
+      let joined = handler.render(80).join("\n").replace(/\x1b\[[0-9;]*m/g, "");
+      expect(joined).toContain("since turn-2");
+      expect(joined).toContain("+ d");
+      expect(joined).not.toContain("+ c");
+
+      handler.handleInput("c");
+      expect(modal.since).toBe("turn-1");
+
+      handler.handleInput("c");
+      expect(modal.since).toBeUndefined();
+      expect(handler.render(80).join("\n")).not.toContain("since");
+    });
+
+    it("cycles backwards with C", () => {
+      const { modal } = createStateWithCheckpoints();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      handler.handleInput("C");
+      expect(modal.since).toBe("turn-1");
+    });
+
+    it("does not accept hunks while showing changes since a checkpoint", () => {
+      const { state, modal } = createStateWithCheckpoints();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      handler.handleInput("c");
+      handler.handleInput("a");
+      expect(state.getChangedFiles()).toEqual(["src/foo.ts"]);
+      expect(state.getHistory("src/foo.ts")).toHaveLength(4);
+    });
+  });
+
   describe("handleInput — visual mode", () => {
     it("toggles visual mode with V", () => {
       const { modal } = createStateWithFiles();
@@ -249,6 +823,116 @@ describe("createOverlayHandler", () => {
     });
   });
 
+  describe("handleInput — layout", () => {
+    it("toggles side-by-side with s", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      // Strip the overlay's own side borders to look for the split divider
+      const hasDivider = (lines: string[]) => lines.some(line => line.slice(1, -1).includes("│"));
+      expect(hasDivider(handler.render(80))).toBe(false);
+      handler.handleInput("s");
+      expect(tui.requestRender).toHaveBeenCalled();
+      expect(hasDivider(handler.render(80))).toBe(true);
+    });
+
+    it("keeps the chosen layout when switching files", () => {
+      const { modal } = createStateWithFiles();
+      // The mock truncate would cut through ANSI codes on the cursor row
+      keyUtils.truncateToWidth = (text: string) => text;
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      handler.handleInput("s");
+      handler.handleInput("n");
+      // Side-by-side pairs "old" and "new" on a single row
+      const lines = handler.render(80).map(line => line.replace(/\x1b\[[0-9;]*m/g, ""));
+      expect(lines.some(line => /old.*│.*new/.test(line))).toBe(true);
+    });
+  });
+
+  describe("handleInput — wrap", () => {
+    it("toggles soft-wrap with W and keeps it across files", () => {
+      const state = new DiffState();
+      state.trackFile("src/long.ts", "a\n", `${"long ".repeat(40)}\n`);
+      state.trackFile("src/other.ts", "a\n", `${"wide ".repeat(40)}\n`);
+      const modal = new DiffReviewModal(state);
+      keyUtils.truncateToWidth = (text: string) => text;
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      const continuations = () => handler.render(80).filter(line => line.includes("↪")).length;
+
+      expect(continuations()).toBe(0);
+      handler.handleInput("W");
+      expect(continuations()).toBeGreaterThan(0);
+      handler.handleInput("n");
+      expect(continuations()).toBeGreaterThan(0);
+      handler.handleInput("W");
+      expect(continuations()).toBe(0);
+    });
+  });
+
+  describe("handleInput — horizontal scroll", () => {
+    it("pans with l/h and zl/zh and shows the column in the header", () => {
+      const state = new DiffState();
+      state.trackFile("src/long.ts", "a\n", `${"long ".repeat(40)}\n`);
+      const handler = createOverlayHandler(new DiffReviewModal(state), tui, theme, keyUtils, noHighlight, done);
+      handler.render(80);
+
+      handler.handleInput("l");
+      expect(handler.render(80)[1]).toContain("col 9");
+      handler.handleInput("z");
+      handler.handleInput("l");
+      expect(handler.render(80)[1]).toContain("col 10");
+      handler.handleInput("z");
+      handler.handleInput("h");
+      handler.handleInput("h");
+      expect(handler.render(80)[1]).not.toContain("col ");
+    });
+  });
+
+  describe("handleInput — diff options", () => {
+    it("applies diffOptions from options", () => {
+      const { modal } = createStateWithFiles();
+      createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, undefined, {
+        diffOptions: { context: 1 },
+      });
+      expect(modal.diffOptions.context).toBe(1);
+    });
+
+    it("renders with options.diffTheme", () => {
+      const { modal } = createStateWithFiles();
+      keyUtils.truncateToWidth = (text: string) => text;
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, undefined, {
+        diffTheme: DIFF_THEMES.light,
+      });
+      const output = handler.render(80).join("\n");
+      expect(output).toContain("\x1b[48;5;252m");
+      expect(output).not.toContain("\x1b[48;5;240m");
+    });
+
+    it("colors the cursor from the theme's selectedBg", () => {
+      const { modal } = createStateWithFiles();
+      keyUtils.truncateToWidth = (text: string) => text;
+      theme.bg = (role: string, text: string) => (role === "selectedBg" ? `\x1b[48;5;99m${text}\x1b[49m` : text);
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      expect(handler.render(80).join("\n")).toContain("\x1b[48;5;99m");
+    });
+
+    it("cycles ignore whitespace with w", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      handler.handleInput("w");
+      expect(modal.diffOptions.ignoreWhitespace).toBe("trailing");
+      expect(handler.render(80).join("\n")).toContain("ignore ws: trailing");
+
+      handler.handleInput("w");
+      handler.handleInput("w");
+      expect(modal.diffOptions.ignoreWhitespace).toBe("all");
+
+      handler.handleInput("w");
+      expect(modal.diffOptions.ignoreWhitespace).toBe("none");
+      expect(handler.render(80).join("\n")).not.toContain("ignore ws");
+    });
+  });
+
   describe("handleInput — yank", () => {
     it("yanks filepath:linenum in normal mode", () => {
       const { modal } = createStateWithFiles();
@@ -276,6 +960,493 @@ describe("createOverlayHandler", () => {
     });
   });
 
+  describe("handleInput — dual gutter", () => {
+    function createShiftedState() {
+      const state = new DiffState();
+      state.trackFile("src/foo.ts", "a\nb\nc\n", "new\na\nB\nc\n");
+      return new DiffReviewModal(state);
+    }
+
+    it("shows old and new line numbers with options.gutter", () => {
+      keyUtils.truncateToWidth = (text: string) => text;
+      const handler = createOverlayHandler(createShiftedState(), tui, theme, keyUtils, noHighlight, done, undefined, {
+        gutter: "dual",
+      });
+      const lines = handler.render(80).map(line => line.replace(/\x1b\[[0-9;]*m/g, ""));
+      expect(lines.some(line => line.includes("1 2   a"))).toBe(true);
+      expect(lines.some(line => line.includes("2   - b"))).toBe(true);
+    });
+
+    it("yanks new line numbers for a selection spanning removed and added lines", () => {
+      const callbacks: OverlayCallbacks = { onPasteToEditor: vi.fn() };
+      const handler = createOverlayHandler(createShiftedState(), tui, theme, keyUtils, noHighlight, done, callbacks, {
+        gutter: "dual",
+      });
+      // new, a, -b, +B: select from "a" through "+B"
+      handler.handleInput("j");
+      handler.handleInput("V");
+      handler.handleInput("j");
+      handler.handleInput("j");
+      handler.handleInput("y");
+      expect(callbacks.onPasteToEditor).toHaveBeenCalledWith(expect.stringMatching(/^`src\/foo\.ts:2-3`/));
+    });
+
+    it("yanks old line numbers for a selection of removed lines only", () => {
+      const callbacks: OverlayCallbacks = { onPasteToEditor: vi.fn() };
+      const handler = createOverlayHandler(createShiftedState(), tui, theme, keyUtils, noHighlight, done, callbacks);
+      handler.handleInput("j");
+      handler.handleInput("j");
+      handler.handleInput("V");
+      handler.handleInput("y");
+      expect(callbacks.onPasteToEditor).toHaveBeenCalledWith(expect.stringMatching(/^`src\/foo\.ts:2`/));
+    });
+  });
+
+  describe("handleInput — hunk navigation", () => {
+    function createStateWithHunks() {
+      const state = new DiffState();
+      const lines = "a\nb\nc\nd\ne\nf\ng\nh\ni\nj\nk\nl\n";
+      state.trackFile("src/foo.ts", lines, lines.replace("b", "B").replace("k", "K"));
+      state.trackFile("src/bar.ts", "old\n", "new\n");
+      return { state, modal: new DiffReviewModal(state) };
+    }
+
+    it("shows the hunk under the cursor in the header", () => {
+      const { modal } = createStateWithHunks();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      expect(handler.render(80)[1]).toContain("hunk 1/2");
+      handler.handleInput("]");
+      handler.handleInput("c");
+      handler.handleInput("]");
+      handler.handleInput("c");
+      expect(handler.render(80)[1]).toContain("hunk 2/2");
+    });
+
+    it("moves on to the next file after the last change with ]c", () => {
+      const { modal } = createStateWithHunks();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      for (let i = 0; i < 3; i++) {
+        handler.handleInput("]");
+        handler.handleInput("c");
+      }
+      expect(modal.getSelectedPath()).toBe("src/bar.ts");
+    });
+
+    it("moves back to the last change of the previous file with {", () => {
+      const { modal } = createStateWithHunks();
+      const callbacks: OverlayCallbacks = { onPasteToEditor: vi.fn() };
+      modal.selectNext();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, callbacks);
+
+      handler.handleInput("{");
+      expect(modal.getSelectedPath()).toBe("src/foo.ts");
+      handler.handleInput("y");
+      expect(callbacks.onPasteToEditor).toHaveBeenCalledWith("src/foo.ts:11");
+    });
+
+    it("cancels a pending [ with Escape without closing", () => {
+      const { modal } = createStateWithHunks();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      handler.handleInput("[");
+      handler.handleInput("ESC");
+      expect(done).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("handleInput — folding", () => {
+    it("folds the hunk under the cursor with za and everything with zM/zR", () => {
+      const state = new DiffState();
+      const lines = "a\nb\nc\nd\ne\nf\ng\nh\ni\nj\nk\nl\n";
+      state.trackFile("src/foo.ts", lines, lines.replace("b", "B").replace("k", "K"));
+      const handler = createOverlayHandler(new DiffReviewModal(state), tui, theme, keyUtils, noHighlight, done);
+      const folds = () => handler.render(80).filter(line => line.includes("lines folded")).length;
+
+      handler.handleInput("z");
+      handler.handleInput("a");
+      expect(folds()).toBe(1);
+      handler.handleInput("z");
+      handler.handleInput("M");
+      expect(folds()).toBe(2);
+      handler.handleInput("z");
+      handler.handleInput("R");
+      expect(folds()).toBe(0);
+      expect(done).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("handleInput — expand context", () => {
+    function createStateWithGap() {
+      const state = new DiffState();
+      const original = Array.from({ length: 40 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+      state.trackFile("src/foo.ts", original, original.replace("line 5\n", "FIVE\n").replace("line 35\n", "THIRTY-FIVE\n"));
+      return { state, modal: new DiffReviewModal(state) };
+    }
+
+    function text(handler: ReturnType<typeof createOverlayHandler>) {
+      return handler.render(80).join("\n").replace(/\x1b\[[0-9;]*m/g, "");
+    }
+
+    beforeEach(() => {
+      // Tall enough to show the whole expanded diff, without cutting ANSI codes
+      tui = createMockTui(100);
+      keyUtils.truncateToWidth = (text: string) => text;
+    });
+
+    function moveToSeparator(handler: ReturnType<typeof createOverlayHandler>) {
+      // 3 context + removed + added + 3 context = 8 lines before the separator
+      for (let i = 0; i < 8; i++) {
+        handler.handleInput("j");
+      }
+    }
+
+    it("reveals 10 lines above the separator with e", () => {
+      const { modal } = createStateWithGap();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      moveToSeparator(handler);
+
+      handler.handleInput("e");
+      const shown = text(handler);
+      expect(shown).toContain("line 18");
+      expect(shown).not.toContain("line 19");
+      expect(shown).toContain("@@ -32,");
+    });
+
+    it("reveals 10 lines below the separator with E", () => {
+      const { modal } = createStateWithGap();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      moveToSeparator(handler);
+
+      handler.handleInput("E");
+      const shown = text(handler);
+      expect(shown).toContain("line 22");
+      expect(shown).not.toContain("line 21");
+    });
+
+    it("reveals the whole gap with x and keeps the cursor on the separator", () => {
+      const { modal } = createStateWithGap();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      moveToSeparator(handler);
+
+      handler.handleInput("e");
+      handler.handleInput("x");
+      const shown = text(handler);
+      for (let n = 9; n <= 31; n++) {
+        expect(shown).toContain(`line ${n} `);
+      }
+
+      // Further expansion at the same separator does nothing
+      handler.handleInput("x");
+      expect(text(handler)).toBe(shown);
+    });
+
+    it("keeps revealed lines to the base they were revealed in", () => {
+      const { state, modal } = createStateWithGap();
+      state.checkpoint("turn-1");
+      const original = Array.from({ length: 40 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+      state.updateFile("src/foo.ts", original.replace("line 2\n", "TWO\n").replace("line 5\n", "FIVE\n")
+        .replace("line 20\n", "TWENTY\n").replace("line 35\n", "THIRTY-FIVE\n"));
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      // Lines 1-8 with two changes come before the separator
+      for (let i = 0; i < 10; i++) {
+        handler.handleInput("j");
+      }
+
+      handler.handleInput("x");
+      expect(text(handler)).toContain("line 12 ");
+
+      // Since the checkpoint, lines 2 and 20 changed; the gap between them stays hidden
+      handler.handleInput("c");
+      expect(text(handler)).toContain("TWENTY");
+      expect(text(handler)).not.toContain("line 12 ");
+
+      handler.handleInput("c");
+      expect(text(handler)).toContain("line 12 ");
+    });
+
+    it("jumps to all-files search hits in a file with revealed lines", () => {
+      const { modal } = createStateWithGap();
+      const onPasteToEditor = vi.fn();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, { onPasteToEditor });
+      moveToSeparator(handler);
+      handler.handleInput("x");
+
+      for (const key of ["/", "TAB", ..."THIRTY", "ENTER", "ENTER", "y"]) {
+        handler.handleInput(key);
+      }
+      expect(onPasteToEditor).toHaveBeenCalledWith("src/foo.ts:35");
+    });
+
+    it("leaves history view to jump to an all-files search hit", () => {
+      const { state, modal } = createStateWithGap();
+      const original = Array.from({ length: 40 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+      state.updateFile("src/foo.ts", original.replace("line 1\n", "ONE\n").replace("line 35\n", "THIRTY-FIVE\n"));
+      const onPasteToEditor = vi.fn();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, { onPasteToEditor });
+      handler.handleInput(">");
+      expect(handler.render(80)[1]).toContain("history v1→v2");
+
+      for (const key of ["/", "TAB", ..."THIRTY", "ENTER", "ENTER"]) {
+        handler.handleInput(key);
+      }
+      expect(handler.render(80)[1]).not.toContain("history");
+      handler.handleInput("y");
+      expect(onPasteToEditor).toHaveBeenCalledWith("src/foo.ts:35");
+    });
+
+    it("does nothing off a separator", () => {
+      const { modal } = createStateWithGap();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      handler.handleInput("x");
+      expect(text(handler)).not.toContain("line 15");
+    });
+  });
+
+  describe("handleInput — search", () => {
+    function createStateWithMatches() {
+      const state = new DiffState();
+      const lines = "a\nfoo 1\nc\nd\ne\nf\ng\nh\ni\nfoo 2\nk\n";
+      state.trackFile("src/foo.ts", lines, lines.replace("c\n", "C\n").replace("i\n", "I\n"));
+      state.trackFile("src/bar.ts", "old\n", "foo 3\n");
+      return { state, modal: new DiffReviewModal(state, { context: Infinity }) };
+    }
+
+    function type(handler: ReturnType<typeof createOverlayHandler>, text: string) {
+      for (const char of text) {
+        handler.handleInput(char);
+      }
+    }
+
+    function yankedLine(handler: ReturnType<typeof createOverlayHandler>, callbacks: OverlayCallbacks) {
+      handler.handleInput("y");
+      const calls = (callbacks.onPasteToEditor as ReturnType<typeof vi.fn>).mock.calls;
+      return calls[calls.length - 1][0];
+    }
+
+    it("shows the prompt in the footer while typing", () => {
+      const { modal } = createStateWithMatches();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      handler.handleInput("/");
+      type(handler, "fox");
+      handler.handleInput("\x7f");
+      type(handler, "o");
+      const lines = handler.render(80);
+      expect(lines[lines.length - 2]).toContain("/foo█");
+    });
+
+    it("jumps to the first match and steps with n/N, wrapping", () => {
+      const { modal } = createStateWithMatches();
+      const callbacks: OverlayCallbacks = { onPasteToEditor: vi.fn() };
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, callbacks);
+
+      handler.handleInput("/");
+      type(handler, "foo");
+      handler.handleInput("ENTER");
+      expect(handler.render(80)[1]).toContain("/foo 1/2");
+      expect(yankedLine(handler, callbacks)).toBe("src/foo.ts:2");
+
+      handler.handleInput("n");
+      expect(yankedLine(handler, callbacks)).toBe("src/foo.ts:10");
+      handler.handleInput("n");
+      expect(yankedLine(handler, callbacks)).toBe("src/foo.ts:2");
+      handler.handleInput("N");
+      expect(yankedLine(handler, callbacks)).toBe("src/foo.ts:10");
+      expect(modal.getSelectedPath()).toBe("src/foo.ts");
+    });
+
+    it("highlights matches in the diff", () => {
+      const { modal } = createStateWithMatches();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      handler.handleInput("/");
+      type(handler, "foo");
+      handler.handleInput("ENTER");
+      expect(handler.render(80).join("\n")).toContain("\x1b[7mfoo\x1b[27m");
+    });
+
+    it("clears the search on Escape so n goes back to switching files", () => {
+      const { modal } = createStateWithMatches();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      handler.handleInput("/");
+      type(handler, "foo");
+      handler.handleInput("ENTER");
+      handler.handleInput("ESC");
+      expect(done).not.toHaveBeenCalled();
+      expect(handler.render(80).join("\n")).not.toContain("\x1b[7m");
+
+      handler.handleInput("n");
+      expect(modal.getSelectedPath()).toBe("src/bar.ts");
+    });
+
+    it("lists hits across files with Tab scope and jumps to one", () => {
+      const { modal } = createStateWithMatches();
+      const callbacks: OverlayCallbacks = { onPasteToEditor: vi.fn() };
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, callbacks);
+
+      handler.handleInput("/");
+      handler.handleInput("TAB");
+      type(handler, "foo");
+      expect(handler.render(80).join("\n")).toContain("(all files)");
+      handler.handleInput("ENTER");
+
+      const listed = handler.render(80).join("\n");
+      expect(listed).toContain("3 hits in 2 files");
+      expect(listed).toContain("src/bar.ts:1");
+
+      handler.handleInput("j");
+      handler.handleInput("j");
+      handler.handleInput("ENTER");
+      expect(modal.getSelectedPath()).toBe("src/bar.ts");
+      expect(handler.render(80)[1]).toContain("/foo 3/3");
+
+      handler.handleInput("n");
+      expect(modal.getSelectedPath()).toBe("src/foo.ts");
+      expect(yankedLine(handler, callbacks)).toBe("src/foo.ts:2");
+    });
+  });
+
+  describe("view state", () => {
+    it("restores the cursor when returning to a file", () => {
+      const { modal } = createStateWithFiles();
+      const callbacks: OverlayCallbacks = { onPasteToEditor: vi.fn() };
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, callbacks);
+
+      handler.handleInput("j");
+      handler.handleInput("j");
+      handler.handleInput("n");
+      handler.handleInput("p");
+      handler.handleInput("y");
+      expect(callbacks.onPasteToEditor).toHaveBeenCalledWith("src/foo.ts:3");
+    });
+
+    it("restores visual mode when returning to a file", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      handler.handleInput("V");
+      handler.handleInput("j");
+      handler.handleInput("n");
+      expect(handler.render(80).join("\n")).not.toContain("VISUAL LINE");
+      handler.handleInput("p");
+      expect(handler.render(80).join("\n")).toContain("VISUAL LINE");
+    });
+
+    it("reports a serializable state that a new overlay resumes from", () => {
+      const { modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      handler.handleInput("j");
+      handler.handleInput("j");
+      handler.handleInput("n");
+
+      const viewState = JSON.parse(JSON.stringify(handler.getViewState()));
+      expect(viewState.selectedPath).toBe("src/bar.ts");
+      expect(viewState.files["src/foo.ts"].cursorLine).toBe(2);
+
+      const { modal: reopened } = createStateWithFiles();
+      const callbacks: OverlayCallbacks = { onPasteToEditor: vi.fn() };
+      const resumed = createOverlayHandler(
+        reopened, tui, theme, keyUtils, noHighlight, done, callbacks, { viewState }
+      );
+      expect(reopened.getSelectedPath()).toBe("src/bar.ts");
+      resumed.handleInput("p");
+      resumed.handleInput("y");
+      expect(callbacks.onPasteToEditor).toHaveBeenCalledWith("src/foo.ts:3");
+    });
+  });
+
+  describe("live updates", () => {
+    it("re-renders when the DiffState changes while open", () => {
+      const { state, modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      state.updateFile("src/foo.ts", "line1\nline2\nline3\nline4\n");
+      expect(tui.requestRender).toHaveBeenCalled();
+      expect(handler.render(80).join("\n")).toContain("line4");
+    });
+
+    it("keeps the cursor on the same line when the file changes", () => {
+      const state = new DiffState();
+      const original = Array.from({ length: 30 }, (_, i) => `line${i + 1}`).join("\n") + "\n";
+      const edited = original.replace("line25", "edited");
+      state.trackFile("src/foo.ts", original, edited);
+      const modal = new DiffReviewModal(state, { context: Infinity });
+      const callbacks: OverlayCallbacks = { onPasteToEditor: vi.fn() };
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done, callbacks);
+
+      for (let i = 0; i < 10; i++) {
+        handler.handleInput("j");
+      }
+      handler.render(80);
+      // Inserting a line above the cursor shifts it down with its line
+      state.updateFile("src/foo.ts", "header\n" + edited);
+
+      handler.handleInput("y");
+      expect(callbacks.onPasteToEditor).toHaveBeenCalledWith("src/foo.ts:12");
+    });
+
+    it("shows newly tracked files", () => {
+      const { state, modal } = createEmptyState();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      state.trackFile("src/new.ts", "", "hello\n");
+      expect(handler.render(80).join("\n")).toContain("hello");
+      expect(done).not.toHaveBeenCalled();
+    });
+
+    it("stops updating after dispose", () => {
+      const { state, modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      handler.dispose?.();
+      state.updateFile("src/foo.ts", "changed\n");
+      expect(tui.requestRender).not.toHaveBeenCalled();
+    });
+
+    it("leaves no DiffState listeners behind once closed", () => {
+      const state = new DiffState();
+      state.trackFile("src/foo.ts", "a\n", "b\n");
+      let listening = 0;
+      const on = state.on.bind(state);
+      vi.spyOn(state, "on").mockImplementation((type, listener) => {
+        listening++;
+        const off = on(type, listener);
+        return () => {
+          listening--;
+          off();
+        };
+      });
+
+      const modal = new DiffReviewModal(state);
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      expect(listening).toBeGreaterThan(0);
+      handler.handleInput("q");
+      expect(listening).toBe(0);
+    });
+
+    it("leaves the modal it was given current after closing", () => {
+      const { state, modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+      handler.handleInput("q");
+
+      state.trackFile("src/new.ts", "", "hello\n");
+      expect(modal.getFileList().map(f => f.path)).toContain("src/new.ts");
+    });
+
+    it("stops updating once it closes itself", () => {
+      const { state, modal } = createStateWithFiles();
+      const handler = createOverlayHandler(modal, tui, theme, keyUtils, noHighlight, done);
+
+      handler.handleInput("q");
+      state.updateFile("src/foo.ts", "changed\n");
+      expect(tui.requestRender).not.toHaveBeenCalled();
+    });
+  });
+
   describe("invalidate", () => {
     it("exists and is callable", () => {
       const { modal } = createEmptyState();
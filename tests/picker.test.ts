@@ -493,4 +493,81 @@ describe("createPickerHandler", () => {
       expect(rendered).not.toContain("d dismiss");
     });
   });
+
+  describe("keymap", () => {
+    it("uses custom bindings in place of the defaults", () => {
+      const items: PickerItem[] = [
+        { id: "1", label: "First" },
+        { id: "2", label: "Second" },
+      ];
+      const handler = createPickerHandler(items, tui, theme, keyUtils, callbacks, {
+        keymap: { down: "<C-n>", select: ["<Enter>", "o"] },
+      });
+
+      expect(handler.handleInput("j")).toBe(false);
+      handler.handleInput("CTRL+n");
+      handler.handleInput("o");
+      expect(onSelect).toHaveBeenCalledWith(items[1]);
+    });
+
+    it("supports multi-key sequences and shows them in the help line", () => {
+      const items: PickerItem[] = [{ id: "1", label: "Item" }];
+      const onDismiss = vi.fn().mockReturnValue(false);
+      const handler = createPickerHandler(items, tui, theme, keyUtils, { ...callbacks, onDismiss }, {
+        keymap: { dismiss: "dd" },
+      });
+
+      expect(handler.handleInput("d")).toBe(true);
+      expect(onDismiss).not.toHaveBeenCalled();
+      handler.handleInput("d");
+      expect(onDismiss).toHaveBeenCalledWith(items[0]);
+      expect(handler.render(80).join("\n")).toContain("↑↓ navigate  Enter select  dd dismiss  Esc close");
+    });
+  });
+
+  describe("mouse", () => {
+    const items = (): PickerItem[] => [
+      { id: "1", label: "First", description: "the first" },
+      { id: "2", label: "Second" },
+      { id: "3", label: "Third" },
+    ];
+
+    it("selects a clicked item, including its description row", () => {
+      const list = items();
+      const handler = createPickerHandler(list, tui, theme, keyUtils, callbacks);
+      const rows = handler.render(80);
+
+      // 1-based screen rows: the item is on row index + 1
+      handler.handleInput(`\x1b[<0;5;${rows.findIndex(row => row.includes("the first")) + 1}M`);
+      expect(onSelect).toHaveBeenCalledWith(list[0]);
+      handler.handleInput(`\x1b[<0;5;${rows.findIndex(row => row.includes("Third")) + 1}M`);
+      expect(onSelect).toHaveBeenLastCalledWith(list[2]);
+    });
+
+    it("maps rows relative to the picker's origin", () => {
+      const list = items();
+      const handler = createPickerHandler(list, { ...tui, getOrigin: () => ({ row: 10, col: 1 }) }, theme, keyUtils, callbacks);
+      const row = handler.render(80).findIndex(line => line.includes("Second"));
+
+      handler.handleInput(`\x1b[<0;5;${row + 10}M`);
+      expect(onSelect).toHaveBeenCalledWith(list[1]);
+    });
+
+    it("moves the cursor with the wheel", () => {
+      const handler = createPickerHandler(items(), tui, theme, keyUtils, callbacks);
+      handler.handleInput("\x1b[<65;5;5M");
+      handler.handleInput("\x1b[<65;5;5M");
+      handler.handleInput("\x1b[<65;5;5M");
+
+      expect(handler.render(80).join("\n")).toContain("> Third");
+    });
+
+    it("consumes clicks on other rows", () => {
+      const handler = createPickerHandler(items(), tui, theme, keyUtils, callbacks);
+      handler.render(80);
+
+      expect(handler.handleInput("\x1b[<0;5;1M")).toBe(true);
+      expect(onSelect).not.toHaveBeenCalled();
+    });
+  });
 });
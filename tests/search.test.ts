@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { compileSearch, findMatches, searchDiff } from '../src/search';
+import { computeDiff } from '../src/diff-engine';
+
+describe('search', () => {
+  describe('compileSearch', () => {
+    it('returns undefined for an empty pattern', () => {
+      expect(compileSearch('')).toBeUndefined();
+    });
+
+    it('is case-insensitive for lowercase patterns', () => {
+      const regex = compileSearch('foo')!;
+      expect(findMatches('Foo foo FOO', regex)).toHaveLength(3);
+    });
+
+    it('is case-sensitive when the pattern has uppercase', () => {
+      const regex = compileSearch('Foo')!;
+      expect(findMatches('Foo foo FOO', regex)).toEqual([{ start: 0, end: 3 }]);
+    });
+
+    it('ignores uppercase letters of escapes for smart-case', () => {
+      const regex = compileSearch('foo\\s+\\S')!;
+      expect(findMatches('FOO x', regex)).toEqual([{ start: 0, end: 5 }]);
+      expect(findMatches('Foo\\S', compileSearch('\\\\S')!)).toEqual([{ start: 3, end: 5 }]);
+      expect(findMatches('Foo\\s', compileSearch('\\\\S')!)).toEqual([]);
+    });
+
+    it('supports regex syntax', () => {
+      const regex = compileSearch('b.r\\d')!;
+      expect(findMatches('bar1 bxr2 bar', regex)).toEqual([
+        { start: 0, end: 4 },
+        { start: 5, end: 9 },
+      ]);
+    });
+
+    it('matches invalid regexes literally', () => {
+      const regex = compileSearch('foo(')!;
+      expect(findMatches('call foo(x)', regex)).toEqual([{ start: 5, end: 9 }]);
+    });
+  });
+
+  describe('findMatches', () => {
+    it('skips empty matches', () => {
+      expect(findMatches('abc', /x*/)).toEqual([]);
+    });
+
+    it('works with non-global regexes', () => {
+      expect(findMatches('a a', /a/)).toHaveLength(2);
+    });
+
+    it('starts from the beginning whatever a global regex last matched', () => {
+      const regex = /a/g;
+      regex.lastIndex = 2;
+      expect(findMatches('a a', regex)).toHaveLength(2);
+      expect(findMatches('a a', regex)).toHaveLength(2);
+    });
+  });
+
+  describe('searchDiff', () => {
+    it('reports matching lines with their index and ranges', () => {
+      const diff = computeDiff('test.ts', 'const a = 1;\nconst b = 2;\n', 'const a = 1;\nlet b = 3;\n');
+      const hits = searchDiff(diff, compileSearch('b')!);
+
+      expect(hits.map(hit => hit.line.type)).toEqual(['removed', 'added']);
+      expect(hits[0]).toMatchObject({ path: 'test.ts', lineIndex: 1, ranges: [{ start: 6, end: 7 }] });
+    });
+
+    it('searches raw content, not highlighted output', () => {
+      const diff = computeDiff('test.ts', '', 'x\n');
+      expect(searchDiff(diff, compileSearch('32m')!)).toEqual([]);
+    });
+  });
+});
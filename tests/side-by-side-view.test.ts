@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SideBySideDiffView } from '../src/side-by-side-view';
+import { computeDiff, type FileDiff } from '../src/diff-engine';
+
+const stripAnsi = (s: string) => s.replace(/\x1b\[[0-9;]*m/g, '');
+
+describe('SideBySideDiffView', () => {
+  let simpleDiff: FileDiff;
+
+  beforeEach(() => {
+    simpleDiff = {
+      filePath: 'test.ts',
+      isNewFile: false,
+      additions: 2,
+      deletions: 1,
+      hunks: [
+        { type: 'context', content: 'line 1', oldLineNumber: 1, newLineNumber: 1 },
+        { type: 'removed', content: 'line 2 old', oldLineNumber: 2, newLineNumber: undefined },
+        { type: 'added', content: 'line 2 new', oldLineNumber: undefined, newLineNumber: 2 },
+        { type: 'added', content: 'line 3 new', oldLineNumber: undefined, newLineNumber: 3 },
+        { type: 'context', content: 'line 4', oldLineNumber: 3, newLineNumber: 4 },
+      ],
+    };
+  });
+
+  describe('Rows', () => {
+    it('pairs removed and added lines on the same row', () => {
+      const view = new SideBySideDiffView(simpleDiff);
+      const lines = view.render(120, 10).map(stripAnsi);
+
+      // context, paired change, added-only, context
+      expect(view.totalLines).toBe(4);
+      expect(lines[1]).toMatch(/line 2 old.*│.*line 2 new/);
+      expect(lines[2]).toContain('line 3 new');
+      expect(lines[2].split('│')[0].trim()).toBe('');
+    });
+
+    it('shows context lines on both sides with old and new numbers', () => {
+      const view = new SideBySideDiffView(simpleDiff);
+      const lines = view.render(120, 10).map(stripAnsi);
+
+      const [left, right] = lines[3].split('│');
+      expect(left).toMatch(/3\s+line 4/);
+      expect(right).toMatch(/4\s+line 4/);
+    });
+
+    it('colors removed on the left and added on the right', () => {
+      const view = new SideBySideDiffView(simpleDiff);
+      view.setCursor(0);
+      const row = view.render(120, 10)[1];
+      const [left, right] = row.split('│');
+
+      expect(left).toContain('\x1b[31m');
+      expect(right).toContain('\x1b[32m');
+    });
+
+    it('fits every row to the given width', () => {
+      const view = new SideBySideDiffView(simpleDiff);
+      const lines = view.render(121, 10);
+
+      for (const line of lines.slice(1)) {
+        expect(stripAnsi(line).length).toBe(121);
+      }
+    });
+
+    it('renders separator when either side skips lines', () => {
+      const diff: FileDiff = {
+        filePath: 'test.ts',
+        isNewFile: false,
+        additions: 0,
+        deletions: 1,
+        hunks: [
+          { type: 'context', content: 'a', oldLineNumber: 1, newLineNumber: 1 },
+          { type: 'removed', content: 'b', oldLineNumber: 2 },
+          { type: 'context', content: 'c', oldLineNumber: 3, newLineNumber: 2 },
+          { type: 'context', content: 'x', oldLineNumber: 20, newLineNumber: 19 },
+        ],
+      };
+
+      const view = new SideBySideDiffView(diff);
+      expect(view.totalLines).toBe(5);
+      expect(view.isSeparatorLine(3)).toBe(true);
+      expect(view.isSeparatorLine(2)).toBe(false);
+    });
+
+    it('renders empty diff as empty array', () => {
+      const view = new SideBySideDiffView({ ...simpleDiff, hunks: [] });
+      expect(view.render(120, 10)).toEqual([]);
+    });
+  });
+
+  describe('Cursor and selection', () => {
+    it('getCursorDiffLine prefers the new side', () => {
+      const view = new SideBySideDiffView(simpleDiff);
+      view.setCursor(1);
+      expect(view.getCursorDiffLine()?.content).toBe('line 2 new');
+    });
+
+    it('getCursorDiffLine falls back to the old side for removed-only rows', () => {
+      const diff: FileDiff = {
+        ...simpleDiff,
+        hunks: [
+          { type: 'removed', content: 'gone', oldLineNumber: 1 },
+        ],
+      };
+      const view = new SideBySideDiffView(diff);
+      expect(view.getCursorDiffLine()?.content).toBe('gone');
+    });
+
+    it('getSelectedDiffLines returns both sides in diff order', () => {
+      const view = new SideBySideDiffView(simpleDiff);
+      view.setCursor(1);
+      view.enterVisualMode();
+      view.moveCursor(1);
+
+      const contents = view.getSelectedDiffLines().map(l => l.content);
+      expect(contents).toEqual(['line 2 old', 'line 2 new', 'line 3 new']);
+    });
+
+    it('maps DiffLine indices to rows', () => {
+      const view = new SideBySideDiffView(simpleDiff);
+      expect(view.getLineForDiffLineIndex(1)).toBe(1);
+      expect(view.getLineForDiffLineIndex(2)).toBe(1);
+      expect(view.getLineForDiffLineIndex(3)).toBe(2);
+      expect(view.getDiffLineIndexAt(1)).toBe(2);
+    });
+
+    it('highlights cursor row', () => {
+      const view = new SideBySideDiffView(simpleDiff);
+      view.setCursor(2);
+      const lines = view.render(120, 10);
+      expect(lines[2]).toContain('\x1b[48;5;240m');
+      expect(lines[1]).not.toContain('\x1b[48;5;240m');
+    });
+
+    it('setDiff resets cursor and visual mode', () => {
+      const view = new SideBySideDiffView(simpleDiff);
+      view.setCursor(2);
+      view.enterVisualMode();
+      view.setDiff(simpleDiff);
+      expect(view.cursorLine).toBe(0);
+      expect(view.isVisualMode).toBe(false);
+    });
+  });
+
+  describe('Change blocks', () => {
+    it('lists the first row of each paired change run', () => {
+      const view = new SideBySideDiffView(simpleDiff);
+      expect(view.getChangeBlockStarts()).toEqual([1]);
+    });
+  });
+
+  describe('Folding', () => {
+    it('renders a folded hunk as one summary row and skips its lines', () => {
+      const view = new SideBySideDiffView(computeDiff(
+        'test.ts',
+        'a\nb\nc\nd\ne\nf\ng\nh\ni\nj\nk\nl\n',
+        'a\nB\nc\nd\ne\nf\ng\nh\ni\nj\nK\nl\n',
+      ));
+      view.setFoldedHunks([0]);
+
+      expect(view.isFoldLine(0)).toBe(true);
+      expect(stripAnsi(view.render(120, 20)[0])).toContain('▸ lines 1–5 +1 -1');
+      view.enterVisualMode();
+      view.setCursor(2);
+      expect(view.getSelectedDiffLines().map(line => line.content)).toEqual(['h']);
+    });
+  });
+
+  describe('getLineAtRow', () => {
+    it('maps viewport rows to rows below the scroll offset', () => {
+      const view = new SideBySideDiffView(simpleDiff);
+      view.render(120, 10);
+
+      // line 1 | line 2 old/new | -/line 3 new | line 4
+      expect([0, 1, 2, 3].map(row => view.getLineAtRow(row))).toEqual([0, 1, 2, 3]);
+      expect(view.getLineAtRow(4)).toBe(-1);
+
+      view.setScrollOffset(2);
+      view.render(120, 2);
+      expect(view.getLineAtRow(0)).toBe(view.scrollOffset);
+    });
+  });
+
+  describe('Horizontal scrolling', () => {
+    it('pans each side while the gutters stay fixed', () => {
+      const view = new SideBySideDiffView(computeDiff('test.ts', `${'a'.repeat(30)}b\n`, `${'a'.repeat(30)}c\n`));
+      view.render(41, 10);
+      view.setColumnOffset(100);
+      const row = stripAnsi(view.render(41, 10)[0]);
+
+      expect(row).toBe(`1 - ${'a'.repeat(15)}b│1 + ${'a'.repeat(15)}c`);
+    });
+  });
+});